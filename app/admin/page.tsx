@@ -1,31 +1,28 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { AdminDashboard } from "@/components/admin-dashboard"
+import { useAuth } from "@/components/auth-provider"
+import { isStaffRole } from "@/lib/roles"
 
 export default function AdminPage() {
-  const [loading, setLoading] = useState(true)
+  const { user, loading } = useAuth()
   const router = useRouter()
 
   useEffect(() => {
-    // Check if user is logged in and is admin
-    const currentUser = localStorage.getItem("currentUser")
-    if (!currentUser) {
-      router.push("/")
-      return
-    }
+    // middleware.ts already keeps voters out of /admin; this handles a session that ends or a
+    // role that is revoked while the page is open
+    if (loading) return
 
-    const userData = JSON.parse(currentUser)
-    if (userData.role !== "admin") {
+    if (!user) {
+      router.push("/")
+    } else if (!isStaffRole(user.role)) {
       router.push("/dashboard")
-      return
     }
+  }, [loading, user, router])
 
-    setLoading(false)
-  }, [router])
-
-  if (loading) {
+  if (loading || !isStaffRole(user?.role)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
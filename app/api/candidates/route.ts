@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { supabaseOperations } from "@/lib/supabase"
+import { requirePermission } from "@/lib/auth-server"
+import { apiErrorResponse } from "@/lib/api-server"
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,11 +18,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("manage_candidates")
     const candidateData = await request.json()
     const candidate = await supabaseOperations.addCandidate(candidateData)
     return NextResponse.json(candidate)
   } catch (error) {
-    console.error("Error adding candidate:", error)
-    return NextResponse.json({ error: "Failed to add candidate" }, { status: 500 })
+    return apiErrorResponse(error, "Failed to add candidate")
   }
 }
@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { v2 as cloudinary } from "cloudinary"
+import { requirePermission } from "@/lib/auth-server"
+import { apiErrorResponse } from "@/lib/api-server"
 
 // Configure Cloudinary
 cloudinary.config({
@@ -10,6 +12,7 @@ cloudinary.config({
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("manage_candidates")
     const { publicId } = await request.json()
 
     if (!publicId) {
@@ -21,7 +24,6 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ success: result.result === "ok" })
   } catch (error) {
-    console.error("Delete error:", error)
-    return NextResponse.json({ error: "Delete failed" }, { status: 500 })
+    return apiErrorResponse(error, "Delete failed")
   }
 }
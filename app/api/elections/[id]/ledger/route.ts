@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { createRouteClient, getClientRequestHeaders } from "@/lib/supabase/server"
+import { getElectionOrThrow } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { checkBallotLedger, sealBallotLedger } from "@/lib/ledger-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Re-walk the election's ballot chain and report any gaps or changes, without writing anything
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("view_reports")
+    await getElectionOrThrow(createRouteClient(), params.id)
+
+    const report = await checkBallotLedger(createServerClient(), params.id)
+    return NextResponse.json(report)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to check the ballot ledger")
+  }
+}
+
+// Chain any ballots left once voting has ended, then check the ledger and record the check
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requirePermission("change_election_status")
+    await getElectionOrThrow(createRouteClient(), params.id)
+    const clientHeaders = getClientRequestHeaders()
+
+    const report = await sealBallotLedger(createServerClient(clientHeaders), user.id, params.id, clientHeaders)
+    return NextResponse.json(report)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to check the ballot ledger")
+  }
+}
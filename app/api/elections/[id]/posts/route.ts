@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import type { PostInput } from "@/lib/elections"
+import { assertBallotEditable, assertValidBallotRule, getElectionOrThrow, parsePostInput } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Add a post (position) to the end of an election's ballot
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const election = await getElectionOrThrow(supabase, params.id)
+    assertBallotEditable(election)
+
+    const input = parsePostInput(await request.json().catch(() => null)) as PostInput
+    // Unset fields take the column defaults
+    assertValidBallotRule({
+      voting_method: input.voting_method ?? "plurality",
+      seats: input.seats ?? 1,
+      max_selections: input.max_selections ?? 1,
+    })
+
+    const { data: last, error: lastError } = await supabase
+      .from("posts")
+      .select("position")
+      .eq("election_id", params.id)
+      .order("position", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lastError) throw lastError
+
+    const { data: post, error } = await supabase
+      .from("posts")
+      .insert([{ ...input, election_id: params.id, position: (last?.position ?? 0) + 1 }])
+      .select()
+      .single()
+
+    if (error) throw error
+    return NextResponse.json(post)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to add position")
+  }
+}
+
+// Reorder an election's posts; the body lists every post id in the new order
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const election = await getElectionOrThrow(supabase, params.id)
+    assertBallotEditable(election)
+
+    const body = await request.json().catch(() => null)
+    const postIds: unknown = body?.post_ids
+    if (!Array.isArray(postIds) || postIds.some((id) => typeof id !== "string")) {
+      throw new ApiError("INVALID_REQUEST", "post_ids must be a list of post ids")
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("posts")
+      .select("id")
+      .eq("election_id", params.id)
+
+    if (existingError) throw existingError
+
+    const existingIds = new Set((existing || []).map((p) => p.id))
+    if (postIds.length !== existingIds.size || new Set(postIds).size !== postIds.length || postIds.some((id) => !existingIds.has(id))) {
+      throw new ApiError("INVALID_REQUEST", "post_ids must list every position in this election exactly once")
+    }
+
+    const results = await Promise.all(
+      postIds.map((id, index) => supabase.from("posts").update({ position: index + 1 }).eq("id", id)),
+    )
+    const failed = results.find((result) => result.error)
+    if (failed?.error) throw failed.error
+
+    const { data: posts, error } = await supabase
+      .from("posts")
+      .select("*")
+      .eq("election_id", params.id)
+      .order("position")
+
+    if (error) throw error
+    return NextResponse.json(posts)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to reorder positions")
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { canPublishResults } from "@/lib/elections"
+import { getElectionOrThrow } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Release the tallies of an election whose results wait on an admin
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("change_election_status")
+    const supabase = createRouteClient()
+    const election = await getElectionOrThrow(supabase, params.id)
+
+    if (!canPublishResults(election)) {
+      throw new ApiError(
+        "INVALID_TRANSITION",
+        election.results_published_at
+          ? "Results for this election have already been published"
+          : "Results can only be published for a closed election that is set to publish them by hand",
+      )
+    }
+
+    const { data: updated, error } = await supabase
+      .from("elections")
+      .update({ results_published_at: new Date().toISOString() })
+      .eq("id", params.id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to publish results")
+  }
+}
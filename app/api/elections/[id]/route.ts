@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { getElectionStatus, isBallotLocked } from "@/lib/elections"
+import { assertValidWindow, getElectionOrThrow, parseElectionInput } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const election = await getElectionOrThrow(supabase, params.id)
+    const input = parseElectionInput(await request.json().catch(() => null), true)
+
+    if (election.archived_at) {
+      throw new ApiError("INVALID_REQUEST", "Archived elections cannot be edited")
+    }
+
+    // Moving the opening time of a live ballot would retroactively change who could vote when
+    if (
+      isBallotLocked(election) &&
+      input.start_time &&
+      new Date(input.start_time).getTime() !== new Date(election.start_time).getTime()
+    ) {
+      throw new ApiError("BALLOT_LOCKED", "Voting has started; the start time can no longer be changed")
+    }
+
+    // Once closed, a later closing time would reopen voting and take back released results; while
+    // open, extensions go through the status API so they are checked and recorded like a transition
+    if (
+      isBallotLocked(election) &&
+      input.end_time &&
+      new Date(input.end_time).getTime() !== new Date(election.end_time).getTime()
+    ) {
+      throw new ApiError(
+        "BALLOT_LOCKED",
+        getElectionStatus(election) === "open"
+          ? "Voting has started; extend the closing time from the election's status controls"
+          : "Voting has ended; the closing time can no longer be changed",
+      )
+    }
+
+    // Loosening the embargo mid-vote would show early voters' tallies to everyone still voting
+    if (isBallotLocked(election) && input.results_visibility && input.results_visibility !== election.results_visibility) {
+      throw new ApiError("BALLOT_LOCKED", "Voting has started; the results visibility can no longer be changed")
+    }
+
+    assertValidWindow({ ...election, ...input })
+
+    const { data: updated, error } = await supabase
+      .from("elections")
+      .update(input)
+      .eq("id", params.id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to update election")
+  }
+}
+
+// Elections are archived rather than deleted so their posts, candidates and votes are kept
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const election = await getElectionOrThrow(supabase, params.id)
+
+    const status = getElectionStatus(election)
+    if (status === "scheduled" || status === "open") {
+      throw new ApiError("BALLOT_LOCKED", `This election is ${status}; move it back to draft or close it before archiving`)
+    }
+
+    const { data: archived, error } = await supabase
+      .from("elections")
+      .update({ archived_at: new Date().toISOString() })
+      .eq("id", params.id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return NextResponse.json(archived)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to archive election")
+  }
+}
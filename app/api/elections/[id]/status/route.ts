@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { ELECTION_TRANSITIONS, type ElectionStatus } from "@/lib/elections"
+import { extendElection, getElectionOrThrow, transitionElection } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Move an election through draft → scheduled → open → closed → certified, or with { end_time }
+// keep an open election open until later
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("change_election_status")
+
+    const body = await request.json().catch(() => null)
+    const supabase = createRouteClient()
+
+    if (body?.end_time !== undefined) {
+      if (typeof body.end_time !== "string") {
+        throw new ApiError("INVALID_REQUEST", "A valid closing time is required")
+      }
+      const election = await getElectionOrThrow(supabase, params.id)
+      return NextResponse.json(await extendElection(supabase, election, body.end_time))
+    }
+
+    const status = body?.status as ElectionStatus
+    if (!Object.keys(ELECTION_TRANSITIONS).includes(status)) {
+      throw new ApiError("INVALID_REQUEST", "A valid status is required")
+    }
+
+    const election = await getElectionOrThrow(supabase, params.id)
+    const updated = await transitionElection(supabase, election, status)
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to change election status")
+  }
+}
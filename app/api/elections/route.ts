@@ -1,5 +1,10 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
 import { supabaseOperations } from "@/lib/supabase"
+import { createRouteClient } from "@/lib/supabase/server"
+import type { ElectionInput } from "@/lib/elections"
+import { assertValidWindow, parseElectionInput } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { apiErrorResponse } from "@/lib/api-server"
 
 export async function GET() {
   try {
@@ -10,3 +15,23 @@ export async function GET() {
     return NextResponse.json({ error: "Failed to fetch elections" }, { status: 500 })
   }
 }
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission("manage_elections")
+    const input = parseElectionInput(await request.json().catch(() => null)) as ElectionInput
+    assertValidWindow(input)
+
+    const supabase = createRouteClient()
+    const { data: election, error } = await supabase
+      .from("elections")
+      .insert([{ ...input, status: "draft" }])
+      .select()
+      .single()
+
+    if (error) throw error
+    return NextResponse.json(election)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to create election")
+  }
+}
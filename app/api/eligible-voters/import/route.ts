@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { getClientRequestHeaders } from "@/lib/supabase/server"
+import { requirePermission } from "@/lib/auth-server"
+import { diffRegister, parseRegisterCsv } from "@/lib/voter-register"
+import { applyRegisterImport, getRegister } from "@/lib/voter-register-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Preview (dry_run) or apply a CSV of the eligible voter register
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission("manage_voters")
+    const supabase = createServerClient(getClientRequestHeaders())
+
+    const body = await request.json().catch(() => null)
+    if (typeof body?.csv !== "string" || body.csv.trim() === "") {
+      throw new ApiError("INVALID_REQUEST", "A CSV file is required")
+    }
+
+    const { rows, issues, hasEmails } = parseRegisterCsv(body.csv)
+
+    if (body.dry_run) {
+      return NextResponse.json(diffRegister(await getRegister(supabase), rows, issues, !hasEmails))
+    }
+
+    if (issues.length > 0) {
+      throw new ApiError("INVALID_ROWS", `Fix the ${issues.length} flagged row(s) before importing`)
+    }
+    if (rows.length === 0) {
+      throw new ApiError("INVALID_REQUEST", "The CSV has no voters; refusing to empty the register")
+    }
+
+    const summary = await applyRegisterImport(supabase, user.id, rows, !hasEmails)
+    return NextResponse.json(summary)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to import voter register")
+  }
+}
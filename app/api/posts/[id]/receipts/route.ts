@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { listReceipts, parseReceiptPage } from "@/lib/receipts-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Public once the post's results are released; ?page=N pages through it
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const page = parseReceiptPage(request.nextUrl.searchParams.get("page"))
+    const receipts = await listReceipts(createRouteClient(), params.id, page)
+    return NextResponse.json(receipts)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to load ballot receipts")
+  }
+}
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { isBallotLocked } from "@/lib/elections"
+import { assertBallotEditable, assertValidBallotRule, getElectionOrThrow, parsePostInput } from "@/lib/elections-server"
+import { requirePermission } from "@/lib/auth-server"
+import { ApiError } from "@/lib/api"
+import { apiErrorResponse } from "@/lib/api-server"
+
+async function getPostOrThrow(supabase: ReturnType<typeof createRouteClient>, postId: string) {
+  const { data, error } = await supabase.from("posts").select("*").eq("id", postId).maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError("NOT_FOUND", "Position not found")
+  return data
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const post = await getPostOrThrow(supabase, params.id)
+    const election = await getElectionOrThrow(supabase, post.election_id)
+    const input = parsePostInput(await request.json().catch(() => null), true)
+
+    // Descriptions can still be clarified mid-vote, but the position voters see cannot be renamed
+    // or counted differently
+    if (isBallotLocked(election) && input.title !== undefined && input.title !== post.title) {
+      throw new ApiError("BALLOT_LOCKED", "Voting has started; this position can no longer be renamed")
+    }
+    const countingChanged = (
+      ["voting_method", "seats", "max_selections", "approval_threshold", "allow_abstain"] as const
+    ).some(
+      (field) => input[field] !== undefined && input[field] !== post[field],
+    )
+    if (isBallotLocked(election) && countingChanged) {
+      throw new ApiError("BALLOT_LOCKED", "Voting has started; how this position is voted on can no longer change")
+    }
+    assertValidBallotRule({ ...post, ...input })
+
+    const { data: updated, error } = await supabase.from("posts").update(input).eq("id", params.id).select().single()
+
+    if (error) throw error
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to update position")
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("manage_elections")
+    const supabase = createRouteClient()
+    const post = await getPostOrThrow(supabase, params.id)
+    const election = await getElectionOrThrow(supabase, post.election_id)
+    assertBallotEditable(election)
+
+    const { error } = await supabase.from("posts").delete().eq("id", params.id)
+
+    if (error) throw error
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to delete position")
+  }
+}
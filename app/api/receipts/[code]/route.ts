@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { findReceipt, parseReceipt } from "@/lib/receipts-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Public: anyone holding a receipt may look it up. The answer never includes the ballot's choice
+export async function GET(request: NextRequest, { params }: { params: { code: string } }) {
+  try {
+    const lookup = await findReceipt(createRouteClient(), parseReceipt(params.code))
+    return NextResponse.json(lookup)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to look up receipt")
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { getClientRequestHeaders } from "@/lib/supabase/server"
+import { parseRegistrationInput, registerVoter } from "@/lib/registration-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Registers a voter: account and profile are created together or not at all, then the first
+// verification code is emailed. The voter signs in once they enter it at /verify-email.
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseRegistrationInput(await request.json().catch(() => null))
+    const supabase = createServerClient(getClientRequestHeaders())
+
+    await registerVoter(supabase, input)
+
+    // The account is complete without it; the voter can ask for another code on the next screen
+    const { error: sendError } = await supabase.auth.signInWithOtp({
+      email: input.email,
+      options: { shouldCreateUser: false },
+    })
+    if (sendError) console.error("Failed to send registration code:", sendError)
+
+    return NextResponse.json({ email: input.email, code_sent: !sendError })
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to register")
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { createRouteClient } from "@/lib/supabase/server"
+import { RegistrationError } from "@/lib/registration"
+import { completeVoterVerification, parseVerificationInput } from "@/lib/registration-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Checks the emailed registration code. Supabase verifies the code and, through the route
+// client, sets the session cookies, so the voter is signed in once this succeeds.
+export async function POST(request: NextRequest) {
+  try {
+    const { email, code } = parseVerificationInput(await request.json().catch(() => null))
+
+    const { data, error } = await createRouteClient().auth.verifyOtp({ email, token: code, type: "email" })
+    if (error || !data.user) {
+      throw new RegistrationError("INVALID_CODE")
+    }
+
+    await completeVoterVerification(createServerClient(), data.user)
+    return NextResponse.json({ verified: true })
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to verify email")
+  }
+}
@@ -1,8 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { put } from "@vercel/blob"
+import { requirePermission } from "@/lib/auth-server"
+import { apiErrorResponse } from "@/lib/api-server"
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("manage_candidates")
     const formData = await request.formData()
     const file = formData.get("file") as File
 
@@ -27,7 +30,6 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ url: blob.url })
   } catch (error) {
-    console.error("Upload error:", error)
-    return NextResponse.json({ error: "Upload failed" }, { status: 500 })
+    return apiErrorResponse(error, "Upload failed")
   }
 }
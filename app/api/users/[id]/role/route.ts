@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createRouteClient } from "@/lib/supabase/server"
+import { requirePermission } from "@/lib/auth-server"
+import { parseRoleInput, setUserRole } from "@/lib/roles-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Grant or revoke an admin role; only super-admins hold manage_roles
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requirePermission("manage_roles")
+    const role = parseRoleInput(await request.json().catch(() => null))
+
+    const updated = await setUserRole(createRouteClient(), user.id, params.id, role)
+    return NextResponse.json(updated)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to change role")
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { getClientRequestHeaders } from "@/lib/supabase/server"
+import { requirePermission } from "@/lib/auth-server"
+import { parseRepairInput, repairAccount } from "@/lib/accounts-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Apply one repair to an account flagged by GET /api/users/accounts
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requirePermission("manage_voters")
+    const action = parseRepairInput(await request.json().catch(() => null))
+    const clientHeaders = getClientRequestHeaders()
+
+    const remaining = await repairAccount(createServerClient(clientHeaders), user.id, params.id, action, clientHeaders)
+    return NextResponse.json(remaining)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to repair account")
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { requirePermission } from "@/lib/auth-server"
+import { getAccountIssues } from "@/lib/accounts-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Accounts whose auth user, profile and register entry disagree
+export async function GET() {
+  try {
+    await requirePermission("manage_voters")
+    return NextResponse.json(await getAccountIssues(createServerClient()))
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to check accounts")
+  }
+}
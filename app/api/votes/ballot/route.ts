@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@/lib/supabase"
+import { getSessionUser } from "@/lib/supabase/server"
+import { IDEMPOTENCY_KEY_HEADER, VoteError } from "@/lib/votes"
+import { parseCastBallotInput, recordBallot } from "@/lib/votes-server"
+import { parseRequestKey } from "@/lib/vote-requests-server"
+import { apiErrorResponse } from "@/lib/api-server"
+
+// Cast a whole ballot: one vote for each position the voter filled in, recorded together or not at all
+export async function POST(request: NextRequest) {
+  try {
+    // The voter always comes from the session, never from the request body
+    const user = await getSessionUser()
+    if (!user) {
+      throw new VoteError("UNAUTHENTICATED")
+    }
+
+    // Retries of one submission share a key, so the vote is recorded once however often it is sent
+    const requestKey = parseRequestKey(request.headers.get(IDEMPOTENCY_KEY_HEADER))
+    const input = parseCastBallotInput(await request.json().catch(() => null))
+    const votes = await recordBallot(createServerClient(), user.id, input, requestKey)
+    return NextResponse.json(votes)
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to submit ballot")
+  }
+}
@@ -1,22 +1,25 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { supabaseOperations } from "@/lib/supabase"
+import { createServerClient } from "@/lib/supabase"
+import { getSessionUser } from "@/lib/supabase/server"
+import { IDEMPOTENCY_KEY_HEADER, VoteError } from "@/lib/votes"
+import { parseCastVoteInput, recordVote } from "@/lib/votes-server"
+import { parseRequestKey } from "@/lib/vote-requests-server"
+import { apiErrorResponse } from "@/lib/api-server"
 
 export async function POST(request: NextRequest) {
   try {
-    const voteData = await request.json()
-
-    // Check if user has already voted for this post
-    const existingVotes = await supabaseOperations.getUserVotes(voteData.user_id)
-    const hasVoted = existingVotes.some((vote) => vote.post_id === voteData.post_id)
-
-    if (hasVoted) {
-      return NextResponse.json({ error: "User has already voted for this position" }, { status: 400 })
+    // The voter always comes from the session, never from the request body
+    const user = await getSessionUser()
+    if (!user) {
+      throw new VoteError("UNAUTHENTICATED")
     }
 
-    const vote = await supabaseOperations.submitVote(voteData)
+    // Retries of one submission share a key, so the vote is recorded once however often it is sent
+    const requestKey = parseRequestKey(request.headers.get(IDEMPOTENCY_KEY_HEADER))
+    const input = parseCastVoteInput(await request.json().catch(() => null))
+    const vote = await recordVote(createServerClient(), user.id, input, requestKey)
     return NextResponse.json(vote)
   } catch (error) {
-    console.error("Error submitting vote:", error)
-    return NextResponse.json({ error: "Failed to submit vote" }, { status: 500 })
+    return apiErrorResponse(error, "Failed to submit vote")
   }
 }
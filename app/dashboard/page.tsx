@@ -1,44 +1,49 @@
 "use client"
 
-import { useState, useEffect, Suspense } from "react"
+import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowRight, CalendarClock, Clock, MailWarning } from "lucide-react"
 import { DashboardHeader } from "@/components/dashboard-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Skeleton } from "@/components/ui/skeleton"
 import { supabaseOperations } from "@/lib/supabase"
-import { authService } from "@/lib/auth"
-
-// Import the newly consolidated PostsList component
-import { PostsList } from "@/components/posts-list" 
-import { ElectionCountdown } from "@/components/election-countdown"
-
+import { useAuth } from "@/components/auth-provider"
+import { getElectionStatus, ELECTION_STATUS_LABELS } from "@/lib/elections"
+import { isStaffRole } from "@/lib/roles"
 
 export default function Dashboard() {
-  const [user, setUser] = useState<any>(null)
-  const [election, setElection] = useState<any>(null)
+  const { user, loading: authLoading } = useAuth()
+  const [elections, setElections] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
   const router = useRouter()
 
   useEffect(() => {
     const initializeDashboard = async () => {
-      // Check if user is logged in
-      const currentUser = authService.getCurrentUser()
-      if (!currentUser) {
+      if (authLoading) return
+
+      // Also runs when the session ends, which sends the user back to sign in
+      if (!user) {
         router.push("/")
         return
       }
 
-      const userData = currentUser
-      if (userData.role === "admin") {
+      if (isStaffRole(user.role)) {
         router.push("/admin")
         return
       }
 
-      setUser(userData)
-
       try {
         const activeElections = await supabaseOperations.getElections()
-        const electionData = activeElections.length > 0 ? activeElections[0] : null
-        setElection(electionData)
+        setElections(activeElections)
+
+        // With a single running election there is nothing to choose, so go straight to its ballot
+        // (unless the voter still has to verify their email, which this page explains)
+        if (activeElections.length === 1 && user.verified_at) {
+          router.replace(`/elections/${activeElections[0].id}`)
+        }
 
       } catch (error) {
         console.error("Failed to initialize dashboard:", error)
@@ -48,7 +53,7 @@ export default function Dashboard() {
     }
 
     initializeDashboard()
-  }, [router])
+  }, [authLoading, user?.id, user?.role, user?.verified_at, router])
 
   if (loading) {
     return <DashboardSkeleton />
@@ -72,24 +77,50 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {election && (
-          <div className="mb-8 animate-slide-up" style={{ animationDelay: "0.1s" }}>
-            <Suspense fallback={<CountdownSkeleton />}>
-              <ElectionCountdown endTime={election.end_time} title={election.title} />
-            </Suspense>
-          </div>
+        {!user.verified_at && (
+          <Alert className="mb-8 border-amber-200 bg-amber-50">
+            <MailWarning className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="flex flex-col gap-3 text-amber-800 sm:flex-row sm:items-center sm:justify-between">
+              <span>Verify your university email to prove this matric number is yours. You can't vote until you do.</span>
+              <Link href="/verify-email">
+                <Button size="sm" variant="outline">
+                  Verify Email
+                </Button>
+              </Link>
+            </AlertDescription>
+          </Alert>
         )}
 
-        <div className="mb-6 animate-slide-up" style={{ animationDelay: "0.2s" }}>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Active Positions</h2>
-          <p className="text-gray-600">Click on any position to view candidates and cast your vote.</p>
+        <div className="mb-6 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Active Elections</h2>
+          <p className="text-gray-600">Choose an election to view its positions and cast your votes.</p>
         </div>
 
-        <div className="animate-slide-up" style={{ animationDelay: "0.3s" }}>
-          <Suspense fallback={<PostsListSkeleton />}>
-            {/* The userId is now guaranteed to be available here */}
-            <PostsList userId={user.id} />
-          </Suspense>
+        <div className="animate-slide-up" style={{ animationDelay: "0.2s" }}>
+          {elections.length === 0 ? (
+            <Card><CardContent className="p-12 text-center"><Clock className="h-8 w-8 mx-auto mb-4 text-gray-400" /><h3 className="font-semibold">No Active Elections</h3><p className="text-sm text-gray-600">Please check back later.</p></CardContent></Card>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {elections.map((election) => (
+                <Card key={election.id} className="hover:shadow-md transition-all duration-300">
+                  <CardHeader className="pb-4">
+                    <CardTitle className="text-lg font-bold">{election.title}</CardTitle>
+                    {election.description && <CardDescription className="mt-1">{election.description}</CardDescription>}
+                  </CardHeader>
+                  <CardContent>
+                    <p className="flex items-center mb-4 text-sm text-gray-600">
+                      <CalendarClock className="h-4 w-4 mr-1" />
+                      {ELECTION_STATUS_LABELS[getElectionStatus(election)]} · Closes{" "}
+                      {new Date(election.end_time).toLocaleString()}
+                    </p>
+                    <Link href={`/elections/${election.id}`} passHref>
+                      <Button className="w-full bg-green-gradient text-white">Open Ballot <ArrowRight className="ml-2 h-4 w-4" /></Button>
+                    </Link>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -111,9 +142,6 @@ function DashboardSkeleton() {
         <div className="mb-8">
           <Skeleton className="h-32 w-full rounded-2xl" />
         </div>
-        <div className="mb-8">
-          <Skeleton className="h-48 w-full rounded-2xl" />
-        </div>
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {[1, 2, 3, 4, 5, 6].map((i) => (
             <Skeleton key={i} className="h-48 rounded-2xl" />
@@ -123,17 +151,3 @@ function DashboardSkeleton() {
     </div>
   )
 }
-
-function CountdownSkeleton() {
-  return <Skeleton className="h-48 w-full rounded-2xl" />
-}
-
-function PostsListSkeleton() {
-  return (
-    <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-      {[1, 2, 3, 4, 5, 6].map((i) => (
-        <Skeleton key={i} className="h-48 rounded-2xl" />
-      ))}
-    </div>
-  )
-}
\ No newline at end of file
@@ -0,0 +1,117 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import { BallotWizard } from "@/components/ballot-wizard"
+import { supabaseOperations } from "@/lib/supabase"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth-provider"
+import { getElectionStatus } from "@/lib/elections"
+import type { Election, PostWithRelations } from "@/app/vote/[postId]/page"
+
+interface BallotPageProps {
+  params: { electionId: string }
+}
+
+// Every position in the election the voter hasn't voted on yet, filled in as one ballot
+export default function BallotPage({ params }: BallotPageProps) {
+  const { user, loading: authLoading } = useAuth()
+  const [election, setElection] = useState<Election | null>(null)
+  const [posts, setPosts] = useState<PostWithRelations[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const { toast } = useToast()
+  const electionHref = `/elections/${params.electionId}`
+
+  useEffect(() => {
+    const initializePage = async () => {
+      if (authLoading) return
+
+      setLoading(true)
+      if (!user) {
+        router.push("/")
+        return
+      }
+
+      try {
+        const supabase = createClientComponentClient()
+        const [postsResponse, votedResponse] = await Promise.all([
+          supabase
+            .from("posts")
+            .select(
+              "id, title, description, voting_method, seats, max_selections, approval_threshold, allow_abstain, elections (id, title, status, start_time, end_time)",
+            )
+            .eq("election_id", params.electionId)
+            .order("position")
+            .order("title"),
+          supabase.from("ballot_participation").select("post_id").eq("user_id", user.id),
+        ])
+
+        if (postsResponse.error) throw postsResponse.error
+        if (votedResponse.error) throw new Error("Database error: Could not verify your voting status.")
+
+        const electionPosts = (postsResponse.data || []) as unknown as PostWithRelations[]
+        const electionData = electionPosts[0]?.elections
+        if (!electionData) throw new Error("This election has no positions to vote on.")
+
+        if (getElectionStatus(electionData) !== "open") {
+          toast({
+            title: "Voting Not Open",
+            description: "Voting for this election is not open right now.",
+            variant: "destructive",
+          })
+          router.push(electionHref)
+          return
+        }
+
+        const votedPostIds = new Set((votedResponse.data || []).map((v) => v.post_id))
+        const unvoted = electionPosts.filter((post) => !votedPostIds.has(post.id))
+        const candidates = unvoted.length ? await supabaseOperations.getCandidates(unvoted.map((post) => post.id)) : []
+
+        // A post nobody is standing for has nothing to vote on
+        const ballotPosts = unvoted
+          .map((post) => ({ ...post, candidates: (candidates || []).filter((c) => c.post_id === post.id) }))
+          .filter((post) => post.candidates.length > 0)
+
+        if (ballotPosts.length === 0) {
+          toast({
+            title: "All Done",
+            description: "You have already voted on every position in this election.",
+          })
+          router.replace(electionHref)
+          return
+        }
+
+        setElection(electionData)
+        setPosts(ballotPosts)
+      } catch (error: any) {
+        console.error("Error on ballot page:", error)
+        toast({ title: "Error Loading Ballot", description: error.message, variant: "destructive" })
+        router.push(electionHref)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    initializePage()
+  }, [authLoading, user?.id, params.electionId, router, toast])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (user && election && posts.length > 0) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <BallotWizard election={election} posts={posts} user={user} />
+      </div>
+    )
+  }
+
+  return null
+}
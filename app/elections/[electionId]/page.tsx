@@ -0,0 +1,126 @@
+"use client"
+
+import { useState, useEffect, Suspense } from "react"
+import { useRouter } from "next/navigation"
+import { DashboardHeader } from "@/components/dashboard-header"
+import { Skeleton } from "@/components/ui/skeleton"
+import { supabaseOperations } from "@/lib/supabase"
+import { useAuth } from "@/components/auth-provider"
+import { isVotingOpen } from "@/lib/elections"
+import { isStaffRole } from "@/lib/roles"
+
+import { PostsList } from "@/components/posts-list"
+import { ElectionCountdown } from "@/components/election-countdown"
+import { ElectionPicker } from "@/components/election-picker"
+
+interface ElectionPageProps {
+  params: { electionId: string }
+}
+
+export default function ElectionPage({ params }: ElectionPageProps) {
+  const { user, loading: authLoading } = useAuth()
+  const [elections, setElections] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+
+  useEffect(() => {
+    const initializePage = async () => {
+      if (authLoading) return
+
+      if (!user) {
+        router.push("/")
+        return
+      }
+
+      if (isStaffRole(user.role)) {
+        router.push("/admin")
+        return
+      }
+
+      try {
+        const activeElections = await supabaseOperations.getElections()
+        setElections(activeElections || [])
+      } catch (error) {
+        console.error("Failed to load elections:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    initializePage()
+  }, [authLoading, user?.id, user?.role, router])
+
+  if (loading) {
+    return <ElectionPageSkeleton />
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const election = elections.find((e) => e.id === params.electionId)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader user={user} />
+
+      <main className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between animate-slide-up">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-1">{election ? election.title : "Election Not Found"}</h1>
+            {election?.description && <p className="text-gray-600">{election.description}</p>}
+          </div>
+          {elections.length > 1 && (
+            <ElectionPicker
+              elections={elections}
+              value={election ? election.id : null}
+              onChange={(electionId) => router.push(`/elections/${electionId}`)}
+            />
+          )}
+        </div>
+
+        {election ? (
+          <>
+            <div className="mb-8 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+              <ElectionCountdown election={election} />
+            </div>
+
+            <div className="mb-6 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Positions</h2>
+              <p className="text-gray-600">
+                {isVotingOpen(election)
+                  ? "Click on any position to view candidates and cast your vote."
+                  : "Voting is not open for this election right now."}
+              </p>
+            </div>
+
+            <div className="animate-slide-up" style={{ animationDelay: "0.3s" }}>
+              <Suspense fallback={<Skeleton className="h-48 w-full rounded-2xl" />}>
+                <PostsList userId={user.id} electionId={election.id} votingOpen={isVotingOpen(election)} />
+              </Suspense>
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-600">This election does not exist or has been archived.</p>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function ElectionPageSkeleton() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="h-16 bg-white border-b" />
+      <main className="max-w-7xl mx-auto py-8 px-4">
+        <Skeleton className="h-12 w-1/2 mb-8" />
+        <Skeleton className="h-48 w-full rounded-2xl mb-8" />
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-48 rounded-2xl" />
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
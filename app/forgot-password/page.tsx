@@ -10,6 +10,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Loader2, CheckCircle, ArrowLeft } from "lucide-react"
 import Link from "next/link"
+import { authService } from "@/lib/auth"
 
 export default function ForgotPasswordPage() {
   const [email, setEmail] = useState("")
@@ -23,8 +24,11 @@ export default function ForgotPasswordPage() {
     setError("")
 
     try {
-      // Mock password reset - in production this would send an actual email
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const { error: resetError } = await authService.requestPasswordReset(email)
+      if (resetError) {
+        setError(resetError)
+        return
+      }
       setSuccess(true)
     } catch (err) {
       setError("An error occurred. Please try again.")
@@ -45,7 +49,7 @@ export default function ForgotPasswordPage() {
           </CardHeader>
           <CardContent>
             <p className="text-gray-600 mb-4">
-              If an account with that email exists, we've sent you a password reset link.
+              If an account with that email exists, we've sent you a password reset link. It can only be used once and expires after an hour.
             </p>
             <Link href="/">
               <Button className="w-full">
@@ -7,31 +7,40 @@ import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { ArrowLeft, Trophy, Users, Vote, CheckCircle } from "lucide-react"
+import { ArrowLeft, Trophy, Users, Vote, CheckCircle, Clock } from "lucide-react"
 import Link from "next/link"
 import { supabaseOperations } from "@/lib/supabase"
+import { useAuth } from "@/components/auth-provider"
+import { areResultsVisible, getResultsReleaseTime, type Election } from "@/lib/elections"
 
-export default function HomePage() {
-  const [user, setUser] = useState<any>(null)
+interface HomePageProps {
+  searchParams: { election?: string }
+}
+
+export default function HomePage({ searchParams }: HomePageProps) {
+  const { user, loading: authLoading } = useAuth()
   const [results, setResults] = useState<any[]>([])
+  const [election, setElection] = useState<Election | null>(null)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
 
   useEffect(() => {
-    // Check if user is logged in
-    const currentUser = localStorage.getItem("currentUser")
-    if (!currentUser) {
+    if (authLoading) return
+
+    if (!user) {
       router.push("/")
       return
     }
 
-    const userData = JSON.parse(currentUser)
-    setUser(userData)
-
     const fetchData = async () => {
       try {
         const allElections = await supabaseOperations.getElections()
-        const activeElection = allElections.length > 0 ? allElections[0] : null
+        // Scope to the election named in ?election=, falling back to the only running one
+        const activeElection = searchParams.election
+          ? allElections.find((e) => e.id === searchParams.election)
+          : allElections.length === 1
+            ? allElections[0]
+            : null
 
         if (!activeElection) {
           router.push("/dashboard") // No active election, redirect
@@ -39,7 +48,7 @@ export default function HomePage() {
         }
 
         const allPosts = await supabaseOperations.getPosts(activeElection.id)
-        const userVotes = await supabaseOperations.getUserVotes(userData.id)
+        const userVotes = await supabaseOperations.getUserVotes(user.id)
         const votedPostIds = new Set(userVotes.map((v) => v.post_id))
 
         // Check if user has completed voting for all positions
@@ -52,21 +61,25 @@ export default function HomePage() {
           return
         }
 
-        const positionResultsPromises = allPosts.map(async (post) => {
-          const { candidates: candidateResults, total_votes: totalVotes } = await supabaseOperations.getPostResults(
-            post.id,
-          )
-          const userVoteForPost = userVotes.find((v) => v.post_id === post.id)
+        setElection(activeElection)
+
+        // Embargoed tallies come back empty from the database, so don't ask for them
+        const electionResults = areResultsVisible(activeElection)
+          ? await supabaseOperations.getElectionResults(activeElection.id)
+          : {}
+        // Ballots aren't linked to voters, so how this voter voted is only known to the device they used
+        const deviceVotes = JSON.parse(localStorage.getItem("userVotes") || "{}")
+        const positionResults = allPosts.map((post) => {
+          const userVoteForPost = deviceVotes[post.id]
 
           return {
             ...post,
-            candidates: candidateResults,
-            total_votes: totalVotes,
+            candidates: electionResults[post.id]?.candidates || [],
+            total_votes: electionResults[post.id]?.total_votes || 0,
             user_vote: userVoteForPost,
           }
         })
 
-        const positionResults = await Promise.all(positionResultsPromises)
         setResults(positionResults)
       } catch (error) {
         console.error("Error fetching home page data:", error)
@@ -77,7 +90,7 @@ export default function HomePage() {
     }
 
     fetchData()
-  }, [router])
+  }, [authLoading, user?.id, router, searchParams.election])
 
   if (loading) {
     return (
@@ -92,6 +105,8 @@ export default function HomePage() {
   }
 
   const totalVotes = results.reduce((sum, result) => sum + result.total_votes, 0)
+  const resultsReleased = election ? areResultsVisible(election) : false
+  const releaseTime = election ? getResultsReleaseTime(election) : null
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -123,7 +138,9 @@ export default function HomePage() {
         <div className="mb-8 text-center">
           <h2 className="text-3xl font-bold text-gray-900 mb-2">Thank You for Voting!</h2>
           <p className="text-gray-600">
-            You have successfully cast your votes for all positions. Here's a live overview of the election results.
+            {resultsReleased
+              ? "You have successfully cast your votes for all positions. Here's an overview of the election results."
+              : "You have successfully cast your votes for all positions."}
           </p>
         </div>
 
@@ -157,7 +174,7 @@ export default function HomePage() {
               <Vote className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{totalVotes.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{resultsReleased ? totalVotes.toLocaleString() : "—"}</div>
             </CardContent>
           </Card>
 
@@ -175,10 +192,23 @@ export default function HomePage() {
 
         {/* Results by Position */}
         <div className="space-y-6">
-          <h3 className="text-2xl font-bold text-gray-900">Live Results by Position</h3>
+          <h3 className="text-2xl font-bold text-gray-900">Results by Position</h3>
+
+          {!resultsReleased && (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">
+                  {releaseTime
+                    ? `Results will be available at ${new Date(releaseTime).toLocaleString()}.`
+                    : "Results will be available once the election administrators publish them."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
 
           <div className="grid gap-6">
-            {results.map((result) => (
+            {resultsReleased && results.map((result) => (
               <Card key={result.id}>
                 <CardHeader>
                   <div className="flex justify-between items-start">
@@ -253,7 +283,7 @@ export default function HomePage() {
             <CardContent className="p-6">
               <h3 className="text-lg font-semibold text-blue-900 mb-2">Election Transparency</h3>
               <p className="text-blue-700">
-                All votes are recorded securely and anonymously. Results are updated in real-time as votes are cast.
+                All votes are recorded securely and anonymously. Results are released according to each election's results policy.
                 Your participation helps ensure a democratic and transparent election process.
               </p>
             </CardContent>
@@ -2,6 +2,8 @@ import type React from "react"
 import "./globals.css"
 import { Inter } from "next/font/google"
 import { Toaster } from "@/components/ui/toaster"
+import { AuthProvider } from "@/components/auth-provider"
+import { VoteQueueSync } from "@/components/vote-queue-sync"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -19,8 +21,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        {children}
-        <Toaster />
+        <AuthProvider>
+          {children}
+          <VoteQueueSync />
+          <Toaster />
+        </AuthProvider>
       </body>
     </html>
   )
@@ -0,0 +1,212 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Progress } from "@/components/ui/progress"
+import { Loader2, CheckCircle, ArrowLeft, AlertTriangle } from "lucide-react"
+import Link from "next/link"
+import { authService } from "@/lib/auth"
+import { getPasswordStrength, validatePassword } from "@/lib/password"
+
+type LinkState = "checking" | "ready" | "invalid" | "done"
+
+// Supabase reports a bad recovery link in the query string (PKCE) or the hash (implicit flow)
+function getLinkError() {
+  const params = new URLSearchParams(window.location.search)
+  const hash = new URLSearchParams(window.location.hash.slice(1))
+  const code = params.get("error_code") || hash.get("error_code")
+  const description = params.get("error_description") || hash.get("error_description")
+
+  if (!code && !params.get("error") && !hash.get("error")) return null
+  return code === "otp_expired"
+    ? "This password reset link has expired. Reset links can only be used once and expire after an hour."
+    : description || "This password reset link is not valid."
+}
+
+export default function ResetPasswordPage() {
+  const [linkState, setLinkState] = useState<LinkState>("checking")
+  const [linkError, setLinkError] = useState("")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const checkLink = async () => {
+      const urlError = getLinkError()
+      if (urlError) {
+        setLinkError(urlError)
+        setLinkState("invalid")
+        return
+      }
+
+      // The Supabase client exchanges the token in the URL for a session as it starts up;
+      // no session means the link was already used, expired or opened in another browser
+      const session = await authService.getSession()
+      if (!session) {
+        setLinkError("This password reset link has expired or has already been used.")
+        setLinkState("invalid")
+        return
+      }
+
+      setLinkState("ready")
+    }
+
+    checkLink()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      setError(passwordError)
+      return
+    }
+
+    setLoading(true)
+    try {
+      const { error: updateError } = await authService.updatePassword(password)
+      if (updateError) {
+        // The recovery session can lapse while the form is open
+        if (!(await authService.getSession())) {
+          setLinkError("This password reset link has expired. Request a new one to continue.")
+          setLinkState("invalid")
+          return
+        }
+        setError(updateError)
+        return
+      }
+
+      // The recovery session has done its job; sign in again with the new password
+      await authService.signOut()
+      setLinkState("done")
+    } catch (err) {
+      setError("An error occurred. Please try again.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const passwordStrength = getPasswordStrength(password)
+
+  if (linkState === "checking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  if (linkState === "invalid" || linkState === "done") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {linkState === "done" ? (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Password Updated
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-5 w-5 text-red-600" />
+                  Link Expired
+                </>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-gray-600">
+              {linkState === "done" ? "Your password has been changed. Sign in with your new password." : linkError}
+            </p>
+            {linkState === "invalid" && (
+              <Link href="/forgot-password">
+                <Button className="w-full">Send a New Link</Button>
+              </Link>
+            )}
+            <Link href="/">
+              <Button variant={linkState === "done" ? "default" : "outline"} className="w-full">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Return to Login
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-md w-full space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Reset Password</h1>
+          <p className="mt-2 text-gray-600">Choose a new password for your account</p>
+        </div>
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>New Password</CardTitle>
+            <CardDescription>
+              At least 8 characters, with upper and lowercase letters, a number and a special character
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="password">New Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  autoComplete="new-password"
+                />
+                {password && <Progress value={passwordStrength.strength} className="h-2" />}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  autoComplete="new-password"
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Update Password
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { ResultsView } from "@/components/results-view"
+import { useAuth } from "@/components/auth-provider"
 
 interface ResultsPageProps {
   params: {
@@ -11,22 +12,19 @@ interface ResultsPageProps {
 }
 
 export default function ResultsPage({ params }: ResultsPageProps) {
-  const [user, setUser] = useState<any>(null)
+  const { user, loading: authLoading } = useAuth()
   const [userVote, setUserVote] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
 
   useEffect(() => {
-    // Check if user is logged in
-    const currentUser = localStorage.getItem("currentUser")
-    if (!currentUser) {
+    if (authLoading) return
+
+    if (!user) {
       router.push("/")
       return
     }
 
-    const userData = JSON.parse(currentUser)
-    setUser(userData)
-
     // Verify user has voted for this post
     const userVotes = JSON.parse(localStorage.getItem("userVotes") || "{}")
     const vote = userVotes[params.postId]
@@ -38,7 +36,7 @@ export default function ResultsPage({ params }: ResultsPageProps) {
 
     setUserVote(vote)
     setLoading(false)
-  }, [params.postId, router])
+  }, [authLoading, user, params.postId, router])
 
   if (loading) {
     return (
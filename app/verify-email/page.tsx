@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { EmailVerificationForm } from "@/components/email-verification-form"
+import { useAuth } from "@/components/auth-provider"
+
+interface VerifyEmailPageProps {
+  searchParams: { email?: string }
+}
+
+// Where voters finish registering: after signing in before verifying, or from the dashboard
+// if their account predates email verification
+export default function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { user, loading } = useAuth()
+  const [typedEmail, setTypedEmail] = useState("")
+  const [confirmedEmail, setConfirmedEmail] = useState("")
+  const router = useRouter()
+
+  const email = searchParams.email || user?.email || confirmedEmail
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-md w-full space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Verify Your Email</h1>
+          <p className="mt-2 text-gray-600">Prove the matric number you registered with is yours</p>
+        </div>
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Verification Code</CardTitle>
+            <CardDescription>You can vote once your university email is verified</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && !searchParams.email ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : email ? (
+              <EmailVerificationForm email={email} onVerified={() => router.push("/dashboard")} />
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  setConfirmedEmail(typedEmail.trim().toLowerCase())
+                }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="email">University Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={typedEmail}
+                    onChange={(e) => setTypedEmail(e.target.value)}
+                    required
+                    placeholder="The email you registered with"
+                  />
+                </div>
+                <Button type="submit" className="w-full">
+                  Continue
+                </Button>
+              </form>
+            )}
+
+            <Link href="/" className="flex items-center justify-center text-sm text-blue-600 hover:underline">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to sign in
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, CheckCircle, ChevronLeft, ChevronRight, Clock, Loader2, ShieldCheck, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useAuth } from "@/components/auth-provider"
+import { getSavedReceipts, type SavedReceipt } from "@/lib/vote-queue"
+import {
+  RECEIPT_PAGE_SIZE,
+  formatReceipt,
+  isValidReceipt,
+  normalizeReceipt,
+  receiptApi,
+  type ReceiptLookup,
+  type ReceiptPage,
+} from "@/lib/receipts"
+import { ApiError } from "@/lib/api"
+
+interface VerifyPageProps {
+  searchParams: { receipt?: string }
+}
+
+interface Verification {
+  lookup: ReceiptLookup
+  // The page of the post's published receipt list on show, or null until it is published
+  list: ReceiptPage | null
+  page: number
+}
+
+// Public: checks a receipt against the published ballot list for its post. Neither the lookup nor
+// the list says how anyone voted
+export default function VerifyPage({ searchParams }: VerifyPageProps) {
+  const [code, setCode] = useState(searchParams.receipt || "")
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState("")
+  const [verification, setVerification] = useState<Verification | null>(null)
+  const [savedReceipts, setSavedReceipts] = useState<SavedReceipt[]>([])
+  const userId = useAuth().user?.id
+
+  const verify = async (value: string) => {
+    const receipt = normalizeReceipt(value)
+    setError("")
+    setVerification(null)
+
+    if (!isValidReceipt(receipt)) {
+      setError("That doesn't look like a receipt code. Check it and try again.")
+      return
+    }
+
+    setChecking(true)
+    try {
+      const lookup = await receiptApi.find(receipt)
+      // Opens the list at the page holding this receipt
+      const page = lookup.list_position === null ? 0 : Math.floor(lookup.list_position / RECEIPT_PAGE_SIZE)
+      const list = lookup.published ? await receiptApi.list(lookup.post_id, page) : null
+      setVerification({ lookup, list, page })
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "The receipt could not be checked. Please try again.")
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const showPage = async (page: number) => {
+    if (!verification) return
+
+    setChecking(true)
+    try {
+      const list = await receiptApi.list(verification.lookup.post_id, page)
+      setVerification({ ...verification, list, page })
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "The ballot list could not be loaded. Please try again.")
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  // A receipt in the link, e.g. from the receipt itself, is checked straight away
+  useEffect(() => {
+    if (searchParams.receipt) verify(searchParams.receipt)
+  }, [])
+
+  // Receipts for ballots this voter sent from this device, including any sent in the background
+  useEffect(() => {
+    if (!userId || typeof indexedDB === "undefined") return
+    getSavedReceipts(userId)
+      .then(setSavedReceipts)
+      .catch((err) => console.error("Error reading saved receipts:", err))
+  }, [userId])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    verify(code)
+  }
+
+  const pages = verification?.list ? Math.max(Math.ceil(verification.list.total / RECEIPT_PAGE_SIZE), 1) : 0
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-2xl w-full space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Verify Your Ballot</h1>
+          <p className="mt-2 text-gray-600">Check that your ballot is in the published list for its position</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-emerald-600" />
+              Ballot Receipt
+            </CardTitle>
+            <CardDescription>Enter the receipt code you were given after voting</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="receipt">Receipt Code</Label>
+                <Input
+                  id="receipt"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="e.g. 3f9a61c2 7b0e..."
+                  className="font-mono"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={checking}>
+                {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify
+              </Button>
+            </form>
+
+            {savedReceipts.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-700">Receipts Saved on This Device</h3>
+                <ul className="divide-y rounded-md border">
+                  {savedReceipts.map((saved) => (
+                    <li key={saved.receipt} className="flex items-center justify-between gap-4 p-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium">{saved.post_title}</div>
+                        <div className="truncate font-mono text-xs text-gray-500">{formatReceipt(saved.receipt)}</div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={checking}
+                        onClick={() => {
+                          setCode(saved.receipt)
+                          verify(saved.receipt)
+                        }}
+                      >
+                        Check
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {verification && (
+              <div className="space-y-4">
+                {!verification.lookup.published ? (
+                  <Alert>
+                    <Clock className="h-4 w-4" />
+                    <AlertDescription>
+                      This receipt belongs to a ballot for <strong>{verification.lookup.post_title}</strong> in{" "}
+                      {verification.lookup.election_title}. The ballot list for this position is published with its
+                      results; check back then to see your receipt in it.
+                    </AlertDescription>
+                  </Alert>
+                ) : verification.lookup.listed ? (
+                  <Alert className="border-emerald-200 bg-emerald-50">
+                    <CheckCircle className="h-4 w-4 text-emerald-600" />
+                    <AlertDescription className="text-emerald-800">
+                      Your ballot is one of the {verification.lookup.ballots} counted for{" "}
+                      <strong>{verification.lookup.post_title}</strong> in {verification.lookup.election_title}.
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert variant="destructive">
+                    <XCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      This receipt is not in the published list for {verification.lookup.post_title}. Please contact
+                      the electoral committee.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {verification.list && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-700">
+                      Published Ballot List — {verification.lookup.post_title}
+                    </h3>
+                    <ScrollArea className="h-64 rounded-md border">
+                      <ol start={verification.page * RECEIPT_PAGE_SIZE + 1} className="p-3 space-y-1 font-mono text-xs">
+                        {verification.list.receipts.map((receipt) => (
+                          <li
+                            key={receipt}
+                            className={
+                              receipt === verification.lookup.receipt
+                                ? "rounded bg-emerald-100 px-2 py-1 font-semibold text-emerald-900"
+                                : "px-2 py-1 text-gray-600"
+                            }
+                          >
+                            {formatReceipt(receipt)}
+                          </li>
+                        ))}
+                      </ol>
+                    </ScrollArea>
+                    {pages > 1 && (
+                      <div className="flex items-center justify-between text-sm text-gray-600">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => showPage(verification.page - 1)}
+                          disabled={checking || verification.page === 0}
+                        >
+                          <ChevronLeft className="h-4 w-4 mr-1" />
+                          Previous
+                        </Button>
+                        <span>
+                          Page {verification.page + 1} of {pages} ({verification.list.total} ballots)
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => showPage(verification.page + 1)}
+                          disabled={checking || verification.page >= pages - 1}
+                        >
+                          Next
+                          <ChevronRight className="h-4 w-4 ml-1" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Link href="/" className="flex items-center justify-center text-sm text-blue-600 hover:underline">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to home
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
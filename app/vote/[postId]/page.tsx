@@ -6,20 +6,21 @@ import { VotingInterface } from "@/components/voting-interface"
 import { supabaseOperations } from "@/lib/supabase"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import { useToast } from "@/hooks/use-toast"
-import { authService, type User } from "@/lib/auth"
+import { useAuth } from "@/components/auth-provider"
 import type { PostgrestSingleResponse } from "@supabase/supabase-js"
+import { getElectionStatus, type ElectionStatus, type VotingMethod } from "@/lib/elections"
 
 // Define types for our data structures
-export type Election = { id: string; title: string; end_time: string }
+export type Election = { id: string; title: string; status: ElectionStatus; start_time: string; end_time: string }
 export type Candidate = { id: string; name: string; bio?: string; department?: string; image_url?: string }
-export type PostWithRelations = { id: string; title: string; description: string; candidates: Candidate[]; elections: Election | null }
+export type PostWithRelations = { id: string; title: string; description: string; voting_method: VotingMethod; seats: number; max_selections: number; approval_threshold: number; allow_abstain: boolean; candidates: Candidate[]; elections: Election | null }
 
 interface VotePageProps {
   params: { postId: string }
 }
 
 export default function VotePage({ params }: VotePageProps) {
-  const [user, setUser] = useState<User | null>(null)
+  const { user, loading: authLoading } = useAuth()
   const [post, setPost] = useState<PostWithRelations | null>(null)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
@@ -27,13 +28,13 @@ export default function VotePage({ params }: VotePageProps) {
 
   useEffect(() => {
     const initializePage = async () => {
+      if (authLoading) return
+
       setLoading(true)
-      const currentUser = authService.getCurrentUser()
-      if (!currentUser) {
+      if (!user) {
         router.push("/")
         return
       }
-      setUser(currentUser)
 
       try {
         const supabase = createClientComponentClient()
@@ -41,9 +42,9 @@ export default function VotePage({ params }: VotePageProps) {
         // **CRITICAL VOTE CHECK (The Page Guard)**
         // Before rendering the UI, verify the user's voting status from the database.
         const { data: voteCheck, error: voteCheckError } = await supabase
-          .from("votes")
+          .from("ballot_participation")
           .select("id")
-          .eq("user_id", currentUser.id)
+          .eq("user_id", user.id)
           .eq("post_id", params.postId)
           .maybeSingle()
 
@@ -63,16 +64,22 @@ export default function VotePage({ params }: VotePageProps) {
 
         // If the check passes (no vote found), proceed to fetch the page data.
         const { data: postData, error: postError }: PostgrestSingleResponse<PostWithRelations> = await supabase
-          .from("posts").select("id, title, description, elections (id, title, end_time)").eq("id", params.postId).single()
+          .from("posts").select("id, title, description, voting_method, seats, max_selections, approval_threshold, allow_abstain, elections (id, title, status, start_time, end_time)").eq("id", params.postId).single()
 
         if (postError || !postData) throw new Error(postError?.message || "Post not found.")
         if (!postData.elections) throw new Error("Election data could not be found for this post.")
         
-        const now = new Date()
-        const endTime = new Date(postData.elections.end_time)
-        if (now > endTime) {
-          toast({ title: "Election Ended", description: "Voting for this position is now closed.", variant: "destructive" })
-          router.push("/dashboard")
+        const status = getElectionStatus(postData.elections)
+        if (status !== "open") {
+          toast({
+            title: status === "draft" || status === "scheduled" ? "Voting Not Open" : "Election Ended",
+            description:
+              status === "draft" || status === "scheduled"
+                ? "Voting for this position has not opened yet."
+                : "Voting for this position is now closed.",
+            variant: "destructive",
+          })
+          router.push(`/elections/${postData.elections.id}`)
           return
         }
 
@@ -90,7 +97,7 @@ export default function VotePage({ params }: VotePageProps) {
     }
 
     initializePage()
-  }, [params.postId, router, toast])
+  }, [authLoading, user?.id, params.postId, router, toast])
 
   // Display a loading spinner while the initial check is happening
   if (loading) {
@@ -1,51 +1,153 @@
 "use client"
+import { useEffect, useState } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { AdminHeader } from "@/components/admin-header"
 import { UserManagement } from "@/components/admin/user-management"
 import { LiveMonitoring } from "@/components/admin/live-monitoring"
 import { ReportsSection } from "@/components/admin/reports-section"
 import { DatabaseInitializer } from "@/components/admin/database-initializer"
+import { ElectionManagement } from "@/components/admin/election-management"
+import { AuditLog } from "@/components/admin/audit-log"
+import { RoleManagement } from "@/components/admin/role-management"
 import { CandidateManagementFixed as CandidateManagement } from "@/components/admin/candidate-management-fixed"
+import { ElectionPicker, type ElectionOption } from "@/components/election-picker"
+import { supabaseOperations } from "@/lib/supabase"
+import { useAuth } from "@/components/auth-provider"
+import { hasPermission, type Permission } from "@/lib/roles"
+import { useToast } from "@/hooks/use-toast"
+
+type AdminTab = "monitoring" | "elections" | "database" | "candidates" | "users" | "reports" | "audit" | "roles"
+
+// A tab is shown when the signed-in role holds any of its permissions
+const TABS: { value: AdminTab; label: string; permissions: Permission[] }[] = [
+  { value: "monitoring", label: "Live Monitoring", permissions: ["view_monitoring"] },
+  { value: "elections", label: "Elections", permissions: ["manage_elections", "change_election_status"] },
+  { value: "database", label: "Database", permissions: ["manage_database"] },
+  { value: "candidates", label: "Candidates", permissions: ["manage_candidates"] },
+  { value: "users", label: "Users", permissions: ["manage_voters"] },
+  { value: "reports", label: "Reports", permissions: ["view_reports"] },
+  { value: "audit", label: "Audit Log", permissions: ["view_audit_log"] },
+  { value: "roles", label: "Roles", permissions: ["manage_roles"] },
+]
+
+// Spelled out so Tailwind keeps the classes
+const GRID_COLS: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+  7: "grid-cols-7",
+  8: "grid-cols-8",
+}
 
 export function AdminDashboard() {
+  const [elections, setElections] = useState<ElectionOption[]>([])
+  const [selectedElectionId, setSelectedElectionId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Hides what the role can't use; the API routes and RLS are what actually enforce it
+  const role = useAuth().user?.role
+  const can = (permission: Permission) => hasPermission(role, permission)
+  const visibleTabs = TABS.filter((tab) => tab.permissions.some(can))
+  const isVisible = (value: AdminTab) => visibleTabs.some((tab) => tab.value === value)
+
+  const loadElections = async () => {
+    try {
+      const data = await supabaseOperations.getAllElections()
+      setElections(data || [])
+      // Keep the current selection if it still exists, otherwise select the most recent election
+      setSelectedElectionId((current) =>
+        data?.some((e) => e.id === current) ? current : data && data.length > 0 ? data[0].id : null,
+      )
+    } catch (error) {
+      console.error("Error fetching elections:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load elections.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  useEffect(() => {
+    loadElections()
+  }, [])
+
   return (
     <div className="min-h-screen bg-gray-50">
       <AdminHeader />
 
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
-          <p className="text-gray-600">Manage elections, candidates, and monitor voting progress</p>
+        <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
+            <p className="text-gray-600">Manage elections, candidates, and monitor voting progress</p>
+          </div>
+          <ElectionPicker elections={elections} value={selectedElectionId} onChange={setSelectedElectionId} />
         </div>
 
-        <Tabs defaultValue="monitoring" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="monitoring">Live Monitoring</TabsTrigger>
-            <TabsTrigger value="database">Database</TabsTrigger>
-            <TabsTrigger value="candidates">Candidates</TabsTrigger>
-            <TabsTrigger value="users">Users</TabsTrigger>
-            <TabsTrigger value="reports">Reports</TabsTrigger>
+        <Tabs defaultValue={visibleTabs[0]?.value} className="space-y-6">
+          <TabsList className={`grid w-full ${GRID_COLS[visibleTabs.length] || "grid-cols-8"}`}>
+            {visibleTabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
-          <TabsContent value="monitoring">
-            <LiveMonitoring />
-          </TabsContent>
+          {isVisible("monitoring") && (
+            <TabsContent value="monitoring">
+              <LiveMonitoring electionId={selectedElectionId} />
+            </TabsContent>
+          )}
+
+          {isVisible("elections") && (
+            <TabsContent value="elections">
+              <ElectionManagement
+                onElectionsChange={loadElections}
+                canManage={can("manage_elections")}
+                canChangeStatus={can("change_election_status")}
+              />
+            </TabsContent>
+          )}
+
+          {isVisible("database") && (
+            <TabsContent value="database">
+              <DatabaseInitializer />
+            </TabsContent>
+          )}
+
+          {isVisible("candidates") && (
+            <TabsContent value="candidates">
+              <CandidateManagement electionId={selectedElectionId} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="database">
-            <DatabaseInitializer />
-          </TabsContent>
+          {isVisible("users") && (
+            <TabsContent value="users">
+              <UserManagement />
+            </TabsContent>
+          )}
 
-          <TabsContent value="candidates">
-            <CandidateManagement />
-          </TabsContent>
+          {isVisible("reports") && (
+            <TabsContent value="reports">
+              <ReportsSection electionId={selectedElectionId} canSealLedger={can("change_election_status")} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="users">
-            <UserManagement />
-          </TabsContent>
+          {isVisible("audit") && (
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          )}
 
-          <TabsContent value="reports">
-            <ReportsSection />
-          </TabsContent>
+          {isVisible("roles") && (
+            <TabsContent value="roles">
+              <RoleManagement />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
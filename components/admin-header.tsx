@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
+import { useAuth } from "@/components/auth-provider"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
@@ -10,10 +11,11 @@ import { LogOut, Shield } from "lucide-react"
 export function AdminHeader() {
   const [loading, setLoading] = useState(false)
   const router = useRouter()
+  const { user, signOut } = useAuth()
 
   const handleLogout = async () => {
     setLoading(true)
-    localStorage.removeItem("currentUser")
+    await signOut()
     router.push("/")
   }
 
@@ -32,7 +34,7 @@ export function AdminHeader() {
                 <Avatar className="h-8 w-8">
                   <AvatarFallback>AD</AvatarFallback>
                 </Avatar>
-                <span>Administrator</span>
+                <span>{user?.name || "Administrator"}</span>
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { RefreshCw, ShieldCheck } from "lucide-react"
+import {
+  ACCOUNT_ISSUE_LABELS,
+  ACCOUNT_REPAIR_LABELS,
+  accountApi,
+  type AccountIssue,
+  type AccountRepairAction,
+} from "@/lib/accounts"
+import { useToast } from "@/hooks/use-toast"
+
+// Accounts left half-made or out of step with the register, and one-click repairs for them
+export function AccountRepair() {
+  const [issues, setIssues] = useState<AccountIssue[]>([])
+  const [loading, setLoading] = useState(true)
+  const [repairingId, setRepairingId] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<AccountIssue | null>(null)
+  const { toast } = useToast()
+
+  const fetchIssues = async () => {
+    setLoading(true)
+    try {
+      setIssues(await accountApi.getIssues())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check accounts.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchIssues()
+  }, [])
+
+  const repair = async (issue: AccountIssue, action: AccountRepairAction) => {
+    setRepairingId(issue.user_id)
+    try {
+      const remaining = await accountApi.repair(issue.user_id, action)
+      setIssues((current) => [...current.filter((i) => i.user_id !== issue.user_id), ...remaining])
+      toast({
+        title: "Account repaired",
+        description: `${ACCOUNT_REPAIR_LABELS[action]}: ${issue.email}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to repair account.",
+        variant: "destructive",
+      })
+    } finally {
+      setRepairingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Account Health</CardTitle>
+          <CardDescription>
+            Accounts without a profile, or whose email no longer matches their profile or the register
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchIssues} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Check Again
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : issues.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            Every account matches its profile and the register.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Matric No</TableHead>
+                <TableHead>Issue</TableHead>
+                <TableHead className="text-right">Repair</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.map((issue) => (
+                <TableRow key={`${issue.user_id}-${issue.kind}`}>
+                  <TableCell>
+                    <div className="font-medium">{issue.name || "—"}</div>
+                    <div className="text-sm text-muted-foreground">{issue.email}</div>
+                  </TableCell>
+                  <TableCell>{issue.matric_no || "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="mb-1">
+                      {ACCOUNT_ISSUE_LABELS[issue.kind]}
+                    </Badge>
+                    <div className="text-sm text-gray-600">{issue.detail}</div>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    {issue.actions.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">Already voted; resolve manually</span>
+                    ) : (
+                      issue.actions.map((action) => (
+                        <Button
+                          key={action}
+                          size="sm"
+                          variant={action === "delete_user" ? "destructive" : "outline"}
+                          disabled={repairingId === issue.user_id}
+                          onClick={() => (action === "delete_user" ? setPendingDelete(issue) : repair(issue, action))}
+                        >
+                          {ACCOUNT_REPAIR_LABELS[action]}
+                        </Button>
+                      ))
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.email} will be removed and can register again from scratch. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) repair(pendingDelete, "delete_user")
+                setPendingDelete(null)
+              }}
+            >
+              Delete Account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RefreshCw, ChevronLeft, ChevronRight } from "lucide-react"
+import { supabaseOperations } from "@/lib/supabase"
+import { isStaffRole } from "@/lib/roles"
+import { ACCOUNT_REPAIR_LABELS, type AccountRepairAction } from "@/lib/accounts"
+import { useToast } from "@/hooks/use-toast"
+
+interface AuditLogEntry {
+  id: string
+  user_id: string | null
+  action: string
+  table_name: string
+  record_id: string | null
+  old_values: Record<string, any> | null
+  new_values: Record<string, any> | null
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  profiles: { name: string; email: string } | null
+}
+
+interface Actor {
+  id: string
+  name: string
+  email: string
+}
+
+// The tables audited by scripts/audit-logging.sql, plus votes for ballot ledger checks
+const AUDITED_TABLES = ["elections", "posts", "candidates", "eligible_voters", "profiles", "votes"]
+const AUDIT_ACTIONS = ["INSERT", "UPDATE", "DELETE", "IMPORT", "REPAIR", "VERIFY"]
+
+const ACTION_BADGE_CLASSES: Record<string, string> = {
+  INSERT: "bg-green-100 text-green-800 hover:bg-green-100",
+  UPDATE: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  DELETE: "bg-red-100 text-red-800 hover:bg-red-100",
+  IMPORT: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+  REPAIR: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  VERIFY: "bg-teal-100 text-teal-800 hover:bg-teal-100",
+}
+
+// Bookkeeping columns that change on every write and only add noise to the summary
+const IGNORED_FIELDS = ["updated_at", "created_at", "is_active"]
+
+const PAGE_SIZE = 50
+const ALL = "all"
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === "") return "—"
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+// A short human-readable summary of what an entry changed
+function describeChange(entry: AuditLogEntry): string {
+  const before = entry.old_values || {}
+  const after = entry.new_values || {}
+
+  if (entry.action === "IMPORT") {
+    return `${after.added ?? 0} added, ${after.updated ?? 0} updated, ${after.removed ?? 0} removed`
+  }
+
+  if (entry.action === "REPAIR") {
+    return `${ACCOUNT_REPAIR_LABELS[after.repair as AccountRepairAction] ?? formatValue(after.repair)} for ${formatValue(after.matric_no ?? after.email)}`
+  }
+
+  if (entry.action === "VERIFY") {
+    const outcome = after.intact ? "intact" : `${after.issues ?? 0} issue${after.issues === 1 ? "" : "s"} found`
+    return `Ballot ledger checked: ${after.ballots ?? 0} ballots, ${outcome}`
+  }
+
+  if (entry.action === "INSERT" || entry.action === "DELETE") {
+    const row = entry.action === "INSERT" ? after : before
+    return formatValue(row.title ?? row.name ?? row.matric_no ?? row.role)
+  }
+
+  return Object.keys(after)
+    .filter((key) => !IGNORED_FIELDS.includes(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`)
+    .join("; ")
+}
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [actors, setActors] = useState<Actor[]>([])
+  const [actorId, setActorId] = useState(ALL)
+  const [tableName, setTableName] = useState(ALL)
+  const [action, setAction] = useState(ALL)
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+  const [page, setPage] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const fetchEntries = async () => {
+    setLoading(true)
+    try {
+      // Date inputs are whole local days; "to" includes the whole of its day
+      const to = toDate ? new Date(`${toDate}T00:00`) : null
+      to?.setDate(to.getDate() + 1)
+
+      const { entries, total } = await supabaseOperations.getAuditLogs(
+        {
+          actorId: actorId === ALL ? undefined : actorId,
+          tableName: tableName === ALL ? undefined : tableName,
+          action: action === ALL ? undefined : action,
+          from: fromDate ? new Date(`${fromDate}T00:00`).toISOString() : undefined,
+          to: to ? to.toISOString() : undefined,
+        },
+        page,
+        PAGE_SIZE,
+      )
+      setEntries(entries)
+      setTotal(total)
+    } catch (error) {
+      console.error("Error fetching audit log:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load the audit log.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    supabaseOperations
+      .getAllUsers()
+      .then((users) => setActors((users || []).filter((u: any) => isStaffRole(u.role))))
+      .catch((error) => console.error("Error fetching audit actors:", error))
+  }, [])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [actorId, tableName, action, fromDate, toDate, page])
+
+  // Any filter change starts again from the newest entries
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(0)
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          <p className="text-gray-600">Every change made to elections, positions, candidates, voters and roles</p>
+        </div>
+        <Button variant="outline" onClick={fetchEntries}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-5">
+          <div>
+            <Label htmlFor="audit-actor">Actor</Label>
+            <Select value={actorId} onValueChange={updateFilter(setActorId)}>
+              <SelectTrigger id="audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {actors.map((actor) => (
+                  <SelectItem key={actor.id} value={actor.id}>
+                    {actor.name || actor.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-table">Table</Label>
+            <Select value={tableName} onValueChange={updateFilter(setTableName)}>
+              <SelectTrigger id="audit-table">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tables</SelectItem>
+                {AUDITED_TABLES.map((table) => (
+                  <SelectItem key={table} value={table}>
+                    {table}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-action">Action</Label>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger id="audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map((auditAction) => (
+                  <SelectItem key={auditAction} value={auditAction}>
+                    {auditAction}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={toDate} onChange={(e) => updateFilter(setToDate)(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>{total} matching entries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No audit entries match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{entry.profiles?.name || entry.profiles?.email || "System"}</TableCell>
+                    <TableCell>
+                      <Badge className={ACTION_BADGE_CLASSES[entry.action] || ""}>{entry.action}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.table_name}</TableCell>
+                    <TableCell className="max-w-md text-sm break-words">{describeChange(entry)}</TableCell>
+                    <TableCell className="text-xs text-gray-500" title={entry.user_agent || undefined}>
+                      {entry.ip_address || "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex justify-between items-center pt-4">
+            <span className="text-sm text-gray-500">
+              Page {page + 1} of {pageCount}
+            </span>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0 || loading}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page + 1 >= pageCount || loading}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
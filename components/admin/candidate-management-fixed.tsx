@@ -11,25 +11,30 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Plus, Edit, Trash2, Users, RefreshCw } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Plus, Edit, Trash2, Users, RefreshCw, Lock } from "lucide-react"
 import { OptimizedImageUpload } from "./optimized-image-upload"
-import { createClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase"
 import type { UploadResult } from "@/lib/cloudinary"
 import { useToast } from "@/hooks/use-toast"
+import { isBallotLocked, ELECTION_STATUS_LABELS, getElectionStatus, type Election } from "@/lib/elections"
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+interface CandidateManagementFixedProps {
+  electionId: string | null
+}
 
-export function CandidateManagementFixed() {
+export function CandidateManagementFixed({ electionId }: CandidateManagementFixedProps) {
   const [candidates, setCandidates] = useState<any[]>([])
   const [posts, setPosts] = useState<any[]>([])
   const [showAddForm, setShowAddForm] = useState(false)
   const [editingCandidate, setEditingCandidate] = useState<any>(null)
   const [loading, setLoading] = useState(false)
   const [isInitialLoading, setIsInitialLoading] = useState(true)
+  const [election, setElection] = useState<Election | null>(null)
   const { toast } = useToast()
 
-  const supabase = createClient(supabaseUrl, supabaseAnonKey)
+  // The cookie-backed client carries the admin's session, so RLS and the audit log see who made each change
+  const supabase = createClient()
 
   const [formData, setFormData] = useState({
     name: "",
@@ -45,35 +50,25 @@ export function CandidateManagementFixed() {
     try {
       setIsInitialLoading(true)
 
-      // Get active election
-      const { data: elections, error: electionsError } = await supabase
-        .from("elections")
-        .select("id")
-        .eq("is_active", true)
-        .limit(1)
-
-      if (electionsError) throw electionsError
-
-      if (!elections || elections.length === 0) {
-        toast({
-          title: "No Active Election",
-          description: "Please initialize the database first",
-          variant: "destructive",
-        })
+      if (!electionId) {
+        setPosts([])
+        setCandidates([])
+        setElection(null)
         return
       }
 
-      const electionId = elections[0].id
-
-      // Load posts and candidates from database
-      const [postsData, candidatesData] = await Promise.all([
-        supabase.from("posts").select("*").eq("election_id", electionId).order("title"),
-        supabase.from("candidates").select("*").order("name"),
+      // Load the election, its posts and candidates from database
+      const [electionData, postsData, candidatesData] = await Promise.all([
+        supabase.from("elections").select("*").eq("id", electionId).single(),
+        supabase.from("posts").select("*").eq("election_id", electionId).order("position").order("title"),
+        supabase.from("candidates").select("*, posts!inner (election_id)").eq("posts.election_id", electionId).order("name"),
       ])
 
+      if (electionData.error) throw electionData.error
       if (postsData.error) throw postsData.error
       if (candidatesData.error) throw candidatesData.error
 
+      setElection(electionData.data)
       setPosts(postsData.data || [])
       setCandidates(candidatesData.data || [])
 
@@ -93,7 +88,7 @@ export function CandidateManagementFixed() {
 
   useEffect(() => {
     loadData()
-  }, [])
+  }, [electionId])
 
   const handleImageUpload = (result: UploadResult) => {
     setFormData((prev) => ({
@@ -198,6 +193,9 @@ export function CandidateManagementFixed() {
     return <CandidateManagementSkeleton />
   }
 
+  // Candidates are part of the ballot, so they are frozen once voting opens
+  const candidatesLocked = election ? isBallotLocked(election) : false
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -210,24 +208,34 @@ export function CandidateManagementFixed() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button onClick={() => setShowAddForm(true)}>
+          <Button onClick={() => setShowAddForm(true)} disabled={candidatesLocked}>
             <Plus className="h-4 w-4 mr-2" />
             Add Candidate
           </Button>
         </div>
       </div>
 
+      {election && candidatesLocked && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            This election is {ELECTION_STATUS_LABELS[getElectionStatus(election)].toLowerCase()}. Candidates can no longer
+            be added, edited or removed.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {posts.length === 0 && (
         <Card className="border-yellow-200 bg-yellow-50">
           <CardContent className="p-6 text-center">
             <p className="text-yellow-800">
-              No positions found. Please initialize the database first using the Database Initializer.
+              No positions found for the selected election. Please initialize the database first using the Database Initializer.
             </p>
           </CardContent>
         </Card>
       )}
 
-      {showAddForm && (
+      {showAddForm && !candidatesLocked && (
         <Card>
           <CardHeader>
             <CardTitle>{editingCandidate ? "Edit Candidate" : "Add New Candidate"}</CardTitle>
@@ -357,10 +365,10 @@ export function CandidateManagementFixed() {
                           <div className="flex items-center justify-between mb-2">
                             <h4 className="font-semibold">{candidate.name}</h4>
                             <div className="flex space-x-2">
-                              <Button size="sm" variant="outline" onClick={() => handleEdit(candidate)}>
+                              <Button size="sm" variant="outline" onClick={() => handleEdit(candidate)} disabled={candidatesLocked}>
                                 <Edit className="h-3 w-3" />
                               </Button>
-                              <Button size="sm" variant="outline" onClick={() => handleDelete(candidate.id)}>
+                              <Button size="sm" variant="outline" onClick={() => handleDelete(candidate.id)} disabled={candidatesLocked}>
                                 <Trash2 className="h-3 w-3" />
                               </Button>
                             </div>
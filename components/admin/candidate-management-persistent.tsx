@@ -17,7 +17,11 @@ import { supabaseOperations } from "@/lib/supabase"
 import type { UploadResult } from "@/lib/cloudinary"
 import { useToast } from "@/hooks/use-toast"
 
-export function CandidateManagementPersistent() {
+interface CandidateManagementPersistentProps {
+  electionId: string | null
+}
+
+export function CandidateManagementPersistent({ electionId }: CandidateManagementPersistentProps) {
   const [candidates, setCandidates] = useState<any[]>([])
   const [posts, setPosts] = useState<any[]>([])
   const [showAddForm, setShowAddForm] = useState(false)
@@ -38,12 +42,18 @@ export function CandidateManagementPersistent() {
   // Load data from database
   useEffect(() => {
     const loadData = async () => {
+      if (!electionId) {
+        setPosts([])
+        setCandidates([])
+        setIsInitialLoading(false)
+        return
+      }
+
       try {
-        // Load posts and candidates from database
-        const [postsData, candidatesData] = await Promise.all([
-          supabaseOperations.getPosts("1"), // Election ID 1
-          supabaseOperations.getCandidates(),
-        ])
+        // Load the selected election's posts, then only their candidates
+        const postsData = await supabaseOperations.getPosts(electionId)
+        const postIds = (postsData || []).map((p: any) => p.id)
+        const candidatesData = postIds.length > 0 ? await supabaseOperations.getCandidates(postIds) : []
 
         setPosts(postsData || [])
         setCandidates(candidatesData || [])
@@ -60,7 +70,7 @@ export function CandidateManagementPersistent() {
     }
 
     loadData()
-  }, [toast])
+  }, [electionId, toast])
 
   const handleImageUpload = (result: UploadResult) => {
     setFormData((prev) => ({
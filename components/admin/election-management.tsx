@@ -0,0 +1,845 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  Plus,
+  Edit,
+  Archive,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  RefreshCw,
+  Lock,
+  ListOrdered,
+  History,
+  Megaphone,
+  Clock,
+} from "lucide-react"
+import { supabaseOperations } from "@/lib/supabase"
+import {
+  electionApi,
+  canPublishResults,
+  getElectionStatus,
+  isBallotLocked,
+  ELECTION_STATUS_LABELS,
+  ELECTION_TRANSITIONS,
+  RESULTS_VISIBILITY_LABELS,
+  VOTING_METHOD_LABELS,
+  describeBallot,
+  type Election,
+  type ElectionStatus,
+  type Post,
+  type ResultsVisibility,
+  type VotingMethod,
+} from "@/lib/elections"
+import { useToast } from "@/hooks/use-toast"
+
+interface ElectionManagementProps {
+  onElectionsChange?: () => void
+  // manage_elections: create, edit and archive elections and arrange their positions
+  canManage?: boolean
+  // change_election_status: open, close and certify elections and publish results
+  canChangeStatus?: boolean
+}
+
+const emptyElectionForm = {
+  title: "",
+  description: "",
+  start_time: "",
+  end_time: "",
+  results_visibility: "after_close" as ResultsVisibility,
+}
+
+const emptyPostForm = {
+  title: "",
+  description: "",
+  voting_method: "plurality" as VotingMethod,
+  seats: 1,
+  max_selections: 1,
+  approval_threshold: 50,
+  allow_abstain: false,
+}
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm")
+
+const STATUS_BADGE_VARIANTS: Record<ElectionStatus, "default" | "secondary" | "outline"> = {
+  draft: "secondary",
+  scheduled: "outline",
+  open: "default",
+  closed: "secondary",
+  certified: "default",
+}
+
+// Button labels for the transitions an admin can make by hand
+const TRANSITION_LABELS: Record<ElectionStatus, string> = {
+  draft: "Back to Draft",
+  scheduled: "Schedule",
+  open: "Open Voting Now",
+  closed: "Close Voting Now",
+  certified: "Certify Results",
+}
+
+export function ElectionManagement({
+  onElectionsChange,
+  canManage = true,
+  canChangeStatus = true,
+}: ElectionManagementProps) {
+  const [elections, setElections] = useState<Election[]>([])
+  const [posts, setPosts] = useState<Post[]>([])
+  const [statusChanges, setStatusChanges] = useState<any[]>([])
+  const [selectedElectionId, setSelectedElectionId] = useState<string | null>(null)
+  const [showElectionForm, setShowElectionForm] = useState(false)
+  const [editingElection, setEditingElection] = useState<Election | null>(null)
+  const [electionForm, setElectionForm] = useState(emptyElectionForm)
+  const [extendingElection, setExtendingElection] = useState<Election | null>(null)
+  const [extendTo, setExtendTo] = useState("")
+  const [editingPost, setEditingPost] = useState<Post | null>(null)
+  const [postForm, setPostForm] = useState(emptyPostForm)
+  const [saving, setSaving] = useState(false)
+  const [isInitialLoading, setIsInitialLoading] = useState(true)
+  const { toast } = useToast()
+
+  const selectedElection = elections.find((e) => e.id === selectedElectionId) || null
+  const ballotLocked = selectedElection ? isBallotLocked(selectedElection) : false
+
+  const showError = (error: any, fallback: string) => {
+    console.error(fallback, error)
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    })
+  }
+
+  const loadElections = async () => {
+    try {
+      setIsInitialLoading(true)
+      const data = await supabaseOperations.getAllElections()
+      setElections(data || [])
+    } catch (error) {
+      showError(error, "Failed to load elections")
+    } finally {
+      setIsInitialLoading(false)
+    }
+  }
+
+  const loadPosts = async (electionId: string) => {
+    try {
+      const [postsData, changesData] = await Promise.all([
+        supabaseOperations.getPosts(electionId),
+        supabaseOperations.getElectionStatusChanges(electionId),
+      ])
+      setPosts(postsData || [])
+      setStatusChanges(changesData || [])
+    } catch (error) {
+      showError(error, "Failed to load positions")
+    }
+  }
+
+  useEffect(() => {
+    loadElections()
+  }, [])
+
+  useEffect(() => {
+    if (selectedElectionId) {
+      loadPosts(selectedElectionId)
+    } else {
+      setPosts([])
+      setStatusChanges([])
+    }
+  }, [selectedElectionId])
+
+  const resetElectionForm = () => {
+    setShowElectionForm(false)
+    setEditingElection(null)
+    setElectionForm(emptyElectionForm)
+  }
+
+  const handleElectionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const input = {
+        title: electionForm.title,
+        description: electionForm.description || null,
+        start_time: new Date(electionForm.start_time).toISOString(),
+        end_time: new Date(electionForm.end_time).toISOString(),
+        results_visibility: electionForm.results_visibility,
+      }
+
+      if (editingElection) {
+        // Once voting has started only the title and description can change; the form shows the
+        // window to the minute, so sending it back would read as an edit
+        const { start_time, end_time, results_visibility, ...details } = input
+        const updated = await electionApi.updateElection(
+          editingElection.id,
+          isBallotLocked(editingElection) ? details : input,
+        )
+        setElections((prev) => prev.map((el) => (el.id === updated.id ? updated : el)))
+        toast({ title: "Success", description: "Election updated successfully" })
+      } else {
+        const created = await electionApi.createElection(input)
+        setElections((prev) => [created, ...prev])
+        setSelectedElectionId(created.id)
+        toast({ title: "Success", description: "Election created successfully" })
+      }
+
+      resetElectionForm()
+      onElectionsChange?.()
+    } catch (error) {
+      showError(error, "Failed to save election")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEditElection = (election: Election) => {
+    setEditingElection(election)
+    setElectionForm({
+      title: election.title,
+      description: election.description || "",
+      start_time: toLocalInput(election.start_time),
+      end_time: toLocalInput(election.end_time),
+      results_visibility: election.results_visibility,
+    })
+    setShowElectionForm(true)
+  }
+
+  const handleTransition = async (election: Election, status: ElectionStatus) => {
+    try {
+      const updated = await electionApi.transitionElection(election.id, status)
+      setElections((prev) => prev.map((el) => (el.id === updated.id ? updated : el)))
+      toast({ title: "Success", description: `"${election.title}" is now ${ELECTION_STATUS_LABELS[status].toLowerCase()}` })
+      if (selectedElectionId === election.id) loadPosts(election.id)
+      onElectionsChange?.()
+    } catch (error) {
+      showError(error, "Failed to change election status")
+    }
+  }
+
+  const handleExtendSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!extendingElection) return
+    setSaving(true)
+
+    try {
+      const updated = await electionApi.extendElection(extendingElection.id, new Date(extendTo).toISOString())
+      setElections((prev) => prev.map((el) => (el.id === updated.id ? updated : el)))
+      toast({
+        title: "Success",
+        description: `Voting in "${updated.title}" now closes ${new Date(updated.end_time).toLocaleString()}`,
+      })
+      if (selectedElectionId === updated.id) loadPosts(updated.id)
+      setExtendingElection(null)
+      onElectionsChange?.()
+    } catch (error) {
+      showError(error, "Failed to extend voting")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePublishResults = async (election: Election) => {
+    try {
+      const updated = await electionApi.publishResults(election.id)
+      setElections((prev) => prev.map((el) => (el.id === updated.id ? updated : el)))
+      toast({ title: "Success", description: `Results for "${election.title}" are now visible to voters` })
+    } catch (error) {
+      showError(error, "Failed to publish results")
+    }
+  }
+
+  const handleArchiveElection = async (election: Election) => {
+    try {
+      await electionApi.archiveElection(election.id)
+      setElections((prev) => prev.filter((el) => el.id !== election.id))
+      if (selectedElectionId === election.id) setSelectedElectionId(null)
+      toast({ title: "Success", description: `"${election.title}" archived` })
+      onElectionsChange?.()
+    } catch (error) {
+      showError(error, "Failed to archive election")
+    }
+  }
+
+  const handlePostSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedElectionId) return
+    setSaving(true)
+
+    try {
+      const input = {
+        title: postForm.title,
+        description: postForm.description || null,
+        voting_method: postForm.voting_method,
+        // Ranked and referendum positions always elect one candidate
+        seats: postForm.voting_method !== "plurality" ? 1 : postForm.seats,
+        max_selections: postForm.voting_method !== "plurality" ? 1 : postForm.max_selections,
+        approval_threshold: postForm.approval_threshold,
+        allow_abstain: postForm.allow_abstain,
+      }
+
+      if (editingPost) {
+        const updated = await electionApi.updatePost(editingPost.id, input)
+        setPosts((prev) => prev.map((p) => (p.id === updated.id ? updated : p)))
+        toast({ title: "Success", description: "Position updated successfully" })
+      } else {
+        const created = await electionApi.addPost(selectedElectionId, input)
+        setPosts((prev) => [...prev, created])
+        toast({ title: "Success", description: "Position added successfully" })
+      }
+
+      setEditingPost(null)
+      setPostForm(emptyPostForm)
+    } catch (error) {
+      showError(error, "Failed to save position")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeletePost = async (post: Post) => {
+    try {
+      await electionApi.deletePost(post.id)
+      setPosts((prev) => prev.filter((p) => p.id !== post.id))
+      toast({ title: "Success", description: "Position deleted successfully" })
+    } catch (error) {
+      showError(error, "Failed to delete position")
+    }
+  }
+
+  const handleMovePost = async (index: number, direction: -1 | 1) => {
+    if (!selectedElectionId) return
+    const target = index + direction
+    if (target < 0 || target >= posts.length) return
+
+    const reordered = [...posts]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+
+    try {
+      const saved = await electionApi.reorderPosts(
+        selectedElectionId,
+        reordered.map((p) => p.id),
+      )
+      setPosts(saved)
+    } catch (error) {
+      showError(error, "Failed to reorder positions")
+    }
+  }
+
+  if (isInitialLoading) {
+    return <ElectionManagementSkeleton />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Election Management</h2>
+          <p className="text-gray-600">Create, schedule and archive elections and arrange their positions</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadElections}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {canManage && (
+            <Button onClick={() => setShowElectionForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Election
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showElectionForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingElection ? "Edit Election" : "New Election"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleElectionSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="election-title">Title</Label>
+                <Input
+                  id="election-title"
+                  value={electionForm.title}
+                  onChange={(e) => setElectionForm((prev) => ({ ...prev, title: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="election-description">Description</Label>
+                <Textarea
+                  id="election-description"
+                  value={electionForm.description}
+                  onChange={(e) => setElectionForm((prev) => ({ ...prev, description: e.target.value }))}
+                  rows={3}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="election-start">Voting Opens</Label>
+                  <Input
+                    id="election-start"
+                    type="datetime-local"
+                    value={electionForm.start_time}
+                    onChange={(e) => setElectionForm((prev) => ({ ...prev, start_time: e.target.value }))}
+                    disabled={!!editingElection && isBallotLocked(editingElection)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="election-end">Voting Closes</Label>
+                  <Input
+                    id="election-end"
+                    type="datetime-local"
+                    value={electionForm.end_time}
+                    onChange={(e) => setElectionForm((prev) => ({ ...prev, end_time: e.target.value }))}
+                    disabled={!!editingElection && isBallotLocked(editingElection)}
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="election-results-visibility">Results Visible to Voters</Label>
+                <Select
+                  value={electionForm.results_visibility}
+                  onValueChange={(value) =>
+                    setElectionForm((prev) => ({ ...prev, results_visibility: value as ResultsVisibility }))
+                  }
+                  disabled={!!editingElection && isBallotLocked(editingElection)}
+                >
+                  <SelectTrigger id="election-results-visibility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RESULTS_VISIBILITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex space-x-2">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : editingElection ? "Update Election" : "Create Election"}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetElectionForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {extendingElection && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Extend Voting — {extendingElection.title}</CardTitle>
+            <CardDescription>
+              Voting currently closes {new Date(extendingElection.end_time).toLocaleString()}. It can only be moved
+              later, and only while voting is open.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleExtendSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="election-extend">Voting Closes</Label>
+                <Input
+                  id="election-extend"
+                  type="datetime-local"
+                  value={extendTo}
+                  onChange={(e) => setExtendTo(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex space-x-2">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Extend Voting"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setExtendingElection(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4">
+        {elections.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-500">No elections yet. Create one to get started.</CardContent>
+          </Card>
+        ) : (
+          elections.map((election) => (
+            <Card key={election.id} className={election.id === selectedElectionId ? "ring-2 ring-emerald-500" : ""}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    {election.title}
+                    <Badge variant={STATUS_BADGE_VARIANTS[getElectionStatus(election)]}>
+                      {ELECTION_STATUS_LABELS[getElectionStatus(election)]}
+                    </Badge>
+                    {isBallotLocked(election) && (
+                      <Badge variant="outline">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Ballot locked
+                      </Badge>
+                    )}
+                  </span>
+                  <div className="flex space-x-2">
+                    {canChangeStatus &&
+                      ELECTION_TRANSITIONS[getElectionStatus(election)].map((status) => (
+                        <Button key={status} size="sm" onClick={() => handleTransition(election, status)}>
+                          {TRANSITION_LABELS[status]}
+                        </Button>
+                      ))}
+                    {canChangeStatus && getElectionStatus(election) === "open" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setExtendingElection(election)
+                          setExtendTo(toLocalInput(election.end_time))
+                        }}
+                      >
+                        <Clock className="h-3 w-3 mr-1" />
+                        Extend Voting
+                      </Button>
+                    )}
+                    {canChangeStatus && canPublishResults(election) && (
+                      <Button size="sm" onClick={() => handlePublishResults(election)}>
+                        <Megaphone className="h-3 w-3 mr-1" />
+                        Publish Results
+                      </Button>
+                    )}
+                    {canManage && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => setSelectedElectionId(election.id)}>
+                          <ListOrdered className="h-3 w-3 mr-1" />
+                          Positions
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleEditElection(election)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleArchiveElection(election)}>
+                          <Archive className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardTitle>
+                <CardDescription>
+                  {new Date(election.start_time).toLocaleString()} – {new Date(election.end_time).toLocaleString()}
+                  <span className="block mt-1">
+                    Results: {RESULTS_VISIBILITY_LABELS[election.results_visibility].toLowerCase()}
+                    {election.results_published_at &&
+                      ` (published ${new Date(election.results_published_at).toLocaleString()})`}
+                  </span>
+                  {election.description && <span className="block mt-1">{election.description}</span>}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {selectedElection && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Positions — {selectedElection.title}</CardTitle>
+            <CardDescription>Positions appear on the ballot in this order</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ballotLocked && (
+              <Alert>
+                <Lock className="h-4 w-4" />
+                <AlertDescription>
+                  Voting has started. Positions can no longer be added, removed, renamed, reordered or change how they
+                  are voted on; descriptions can still be edited.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {posts.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No positions added yet</p>
+            ) : (
+              <div className="space-y-2">
+                {posts.map((post, index) => (
+                  <div key={post.id} className="flex items-start space-x-4 p-4 border rounded-lg">
+                    <span className="font-semibold text-gray-500 w-6">{index + 1}.</span>
+                    <div className="flex-1">
+                      <h4 className="font-semibold">{post.title}</h4>
+                      {describeBallot(post) && (
+                        <Badge variant="outline" className="mt-1">
+                          {describeBallot(post)}
+                        </Badge>
+                      )}
+                      {post.allow_abstain && (
+                        <Badge variant="outline" className="mt-1 ml-1">
+                          Abstain allowed
+                        </Badge>
+                      )}
+                      {post.description && <p className="text-sm text-gray-600">{post.description}</p>}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleMovePost(index, -1)}
+                        disabled={ballotLocked || index === 0}
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleMovePost(index, 1)}
+                        disabled={ballotLocked || index === posts.length - 1}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingPost(post)
+                          setPostForm({
+                            title: post.title,
+                            description: post.description || "",
+                            voting_method: post.voting_method,
+                            seats: post.seats,
+                            max_selections: post.max_selections,
+                            approval_threshold: post.approval_threshold,
+                            allow_abstain: post.allow_abstain,
+                          })
+                        }}
+                      >
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeletePost(post)} disabled={ballotLocked}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(!ballotLocked || editingPost) && (
+              <form onSubmit={handlePostSubmit} className="space-y-4 border-t pt-4">
+                <h4 className="font-semibold">{editingPost ? "Edit Position" : "Add Position"}</h4>
+                <div>
+                  <Label htmlFor="post-title">Title</Label>
+                  <Input
+                    id="post-title"
+                    value={postForm.title}
+                    onChange={(e) => setPostForm((prev) => ({ ...prev, title: e.target.value }))}
+                    disabled={ballotLocked}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="post-description">Description</Label>
+                  <Textarea
+                    id="post-description"
+                    value={postForm.description}
+                    onChange={(e) => setPostForm((prev) => ({ ...prev, description: e.target.value }))}
+                    rows={2}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="post-voting-method">Voting Method</Label>
+                  <Select
+                    value={postForm.voting_method}
+                    onValueChange={(value) => setPostForm((prev) => ({ ...prev, voting_method: value as VotingMethod }))}
+                    disabled={ballotLocked}
+                  >
+                    <SelectTrigger id="post-voting-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VOTING_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {postForm.voting_method === "plurality" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="post-seats">Seats</Label>
+                      <Input
+                        id="post-seats"
+                        type="number"
+                        min={1}
+                        value={postForm.seats}
+                        onChange={(e) => {
+                          const seats = Math.max(1, Number(e.target.value) || 1)
+                          // Voters can usually choose as many candidates as there are seats
+                          setPostForm((prev) => ({
+                            ...prev,
+                            seats,
+                            max_selections: prev.max_selections === prev.seats ? seats : prev.max_selections,
+                          }))
+                        }}
+                        disabled={ballotLocked}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="post-max-selections">Choices per Voter</Label>
+                      <Input
+                        id="post-max-selections"
+                        type="number"
+                        min={1}
+                        value={postForm.max_selections}
+                        onChange={(e) =>
+                          setPostForm((prev) => ({ ...prev, max_selections: Math.max(1, Number(e.target.value) || 1) }))
+                        }
+                        disabled={ballotLocked}
+                      />
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="post-approval-threshold">
+                    {postForm.voting_method === "referendum" ? "Approval Threshold (%)" : "Approval Threshold if Unopposed (%)"}
+                  </Label>
+                  <Input
+                    id="post-approval-threshold"
+                    type="number"
+                    min={0}
+                    max={99.99}
+                    step={0.01}
+                    value={postForm.approval_threshold}
+                    onChange={(e) =>
+                      setPostForm((prev) => ({
+                        ...prev,
+                        approval_threshold: Math.min(99.99, Math.max(0, Number(e.target.value) || 0)),
+                      }))
+                    }
+                    disabled={ballotLocked}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {postForm.voting_method === "referendum"
+                      ? "The one candidate is elected if more than this share of voters say Yes."
+                      : "A position with only one candidate becomes a Yes/No vote; the candidate needs more than this share of Yes votes."}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="post-allow-abstain">Allow Abstaining</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Voters may choose "Abstain / None of the above". It counts toward turnout but not for any candidate.
+                    </p>
+                  </div>
+                  <Switch
+                    id="post-allow-abstain"
+                    checked={postForm.allow_abstain}
+                    onCheckedChange={(checked) => setPostForm((prev) => ({ ...prev, allow_abstain: checked }))}
+                    disabled={ballotLocked}
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Saving..." : editingPost ? "Update Position" : "Add Position"}
+                  </Button>
+                  {editingPost && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingPost(null)
+                        setPostForm(emptyPostForm)
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedElection && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Status History
+            </CardTitle>
+            <CardDescription>Who moved this election between states, and when</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statusChanges.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No status changes recorded yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {statusChanges.map((change) => (
+                  <li key={change.id} className="flex justify-between items-center text-sm">
+                    <span>
+                      {change.from_status === change.to_status ? (
+                        <strong>Voting extended</strong>
+                      ) : (
+                        <>
+                          {ELECTION_STATUS_LABELS[change.from_status as ElectionStatus]} →{" "}
+                          <strong>{ELECTION_STATUS_LABELS[change.to_status as ElectionStatus]}</strong>
+                        </>
+                      )}
+                      {change.profiles?.name && <span className="text-gray-600"> by {change.profiles.name}</span>}
+                    </span>
+                    <span className="text-gray-500">{new Date(change.created_at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+// Loading skeleton component
+function ElectionManagementSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-4 w-96 mt-2" />
+        </div>
+        <Skeleton className="h-10 w-32" />
+      </div>
+      {[1, 2].map((i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-6 w-48" />
+            <Skeleton className="h-4 w-full" />
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Download, FileSpreadsheet, FileText } from "lucide-react"
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from "@/lib/exports"
+
+interface ExportMenuProps {
+  label: string
+  onExport: (format: ExportFormat) => void
+  disabled?: boolean
+  variant?: "default" | "outline"
+}
+
+const FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+  csv: FileText,
+  xlsx: FileSpreadsheet,
+  pdf: FileText,
+}
+
+export function ExportMenu({ label, onExport, disabled, variant = "default" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => {
+          const Icon = FORMAT_ICONS[format]
+          return (
+            <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+              <Icon className="mr-2 h-4 w-4" />
+              {EXPORT_FORMAT_LABELS[format]}
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
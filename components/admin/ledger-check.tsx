@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react"
+import { electionApi } from "@/lib/elections"
+import { LEDGER_ISSUE_LABELS, type LedgerReport } from "@/lib/ledger"
+import { useToast } from "@/hooks/use-toast"
+
+interface LedgerCheckProps {
+  electionId: string
+  // Officers seal the ledger before checking it, and their checks are recorded in the audit log;
+  // observers only read it
+  canSeal: boolean
+}
+
+// Runs on request rather than on load, since an officer's check seals the ledger and is audited
+export function LedgerCheck({ electionId, canSeal }: LedgerCheckProps) {
+  const [report, setReport] = useState<LedgerReport | null>(null)
+  const [checking, setChecking] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setReport(null)
+  }, [electionId])
+
+  const runCheck = async () => {
+    setChecking(true)
+    try {
+      setReport(await (canSeal ? electionApi.sealLedger(electionId) : electionApi.checkLedger(electionId)))
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check the ballot ledger.",
+        variant: "destructive",
+      })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Ballot Ledger Integrity</CardTitle>
+          <CardDescription>
+            Re-walks this election's chain of ballots and reports any that are missing or have changed
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={runCheck} disabled={checking}>
+          {checking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Run Integrity Check
+        </Button>
+      </CardHeader>
+      {report && (
+        <CardContent className="space-y-4">
+          {report.intact ? (
+            <Alert className="border-green-200 bg-green-50">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                All {report.ballots} chained ballots are unchanged
+                {report.pending > 0 && ` and, with the ${report.pending} still waiting to be chained,`} in step with the
+                voters recorded.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription>
+                The ledger failed {report.issues.length === 1 ? "1 check" : `${report.issues.length} checks`}. Ballots
+                may have been changed or removed outside the app.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="text-sm text-gray-600">
+            <div>Checked {new Date(report.checked_at).toLocaleString()}</div>
+            <div className="mt-1">
+              Head hash:{" "}
+              <span className="font-mono text-xs break-all text-gray-800">{report.head_hash || "— (no ballots yet)"}</span>
+            </div>
+            <p className="mt-1 text-xs">Note the head hash down; a later check with the same hash shows nothing before it was rewritten.</p>
+            {report.pending > 0 && (
+              <p className="mt-1 text-xs">
+                Ballots are chained in random batches, not in the order they were cast, so the chain can't be matched
+                against who voted when. The rest are chained when voting ends.
+              </p>
+            )}
+          </div>
+
+          {report.issues.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Ballot</TableHead>
+                  <TableHead>Detail</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.issues.map((issue, index) => (
+                  <TableRow key={`${issue.kind}-${issue.seq ?? "ledger"}-${index}`}>
+                    <TableCell>
+                      <Badge variant="outline">{LEDGER_ISSUE_LABELS[issue.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>{issue.seq ?? "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{issue.detail}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
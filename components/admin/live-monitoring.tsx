@@ -2,16 +2,18 @@
 
 import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { BarChart, LineChart, PieChart, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Activity, BarChart, LineChart, PieChart, Users } from "lucide-react"
 import { supabaseOperations } from "@/lib/supabase"
 import { useToast } from "@/hooks/use-toast"
+import { useLiveVotes, type LiveConnectionStatus } from "@/hooks/use-live-votes"
 
 interface Election {
   id: string
   title: string
   start_time: string
   end_time: string
-  is_active: boolean
+  status: string
 }
 
 interface Post {
@@ -26,38 +28,46 @@ interface Candidate {
   post_id: string
 }
 
-interface Vote {
-  id: string
-  user_id: string
-  post_id: string
-  candidate_id: string
-  created_at: string
+interface LiveMonitoringProps {
+  electionId: string | null
+}
+
+const RATE_WINDOW_MINUTES = 5
+
+const CONNECTION_BADGES: Record<LiveConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: "Connecting…", className: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+  live: { label: "Live", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  polling: { label: "Reconnecting — refreshing every 30s", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
 }
 
-export function LiveMonitoring() {
+export function LiveMonitoring({ electionId }: LiveMonitoringProps) {
   const [elections, setElections] = useState<Election[]>([])
   const [posts, setPosts] = useState<Post[]>([])
   const [candidates, setCandidates] = useState<Candidate[]>([])
-  const [votes, setVotes] = useState<Vote[]>([])
   const [loading, setLoading] = useState(true)
   const { toast } = useToast()
 
+  const liveVotes = useLiveVotes(
+    electionId,
+    posts.map((p) => p.id),
+    { windowMinutes: RATE_WINDOW_MINUTES },
+  )
+
+  // The ballot itself only changes between elections; vote counts come from useLiveVotes
   const fetchData = async () => {
     setLoading(true)
     try {
-      const electionsData = await supabaseOperations.getElections()
-      const electionId = electionsData?.[0]?.id
-
-      const [postsData, candidatesData, votesData] = await Promise.all([
+      const [electionsData, postsData] = await Promise.all([
+        supabaseOperations.getElections(),
         electionId ? supabaseOperations.getPosts(electionId) : Promise.resolve([]),
-        supabaseOperations.getCandidates(),
-        supabaseOperations.getAllVotes(),
       ])
 
+      const postIds = (postsData || []).map((p: Post) => p.id)
+      const candidatesData = postIds.length > 0 ? await supabaseOperations.getCandidates(postIds) : []
+
       setElections(Array.isArray(electionsData) ? electionsData : [])
       setPosts(postsData || [])
       setCandidates(candidatesData || [])
-      setVotes(votesData || [])
     } catch (error) {
       console.error("Error fetching live monitoring data:", error)
       toast({
@@ -72,31 +82,31 @@ export function LiveMonitoring() {
 
   useEffect(() => {
     fetchData()
-    const interval = setInterval(fetchData, 30000) // Refresh every 30 seconds
-    return () => clearInterval(interval)
-  }, [])
+  }, [electionId])
 
   const totalElections = elections.length
   const totalPosts = posts.length
   const totalCandidates = candidates.length
-  const totalVotes = votes.length
+  const totalVotes = liveVotes.total
 
   const votesPerPost = posts.map((post) => {
-    const count = votes.filter((vote) => vote.post_id === post.id).length
+    const count = liveVotes.byPost[post.id] || 0
     return { postTitle: post.title, count }
   })
 
   const votesPerCandidate = candidates.map((candidate) => {
-    const count = votes.filter((vote) => vote.candidate_id === candidate.id).length
+    const count = liveVotes.byCandidate[candidate.id] || 0
     return { candidateName: candidate.name, count }
   })
 
-  if (loading) {
+  const connectionBadge = CONNECTION_BADGES[liveVotes.status]
+
+  if (loading || liveVotes.loading) {
     return (
       <div className="space-y-6">
         <h2 className="text-2xl font-bold">Live Monitoring</h2>
-        <div className="grid gap-6 md:grid-cols-4">
-          {[1, 2, 3, 4].map((i) => (
+        <div className="grid gap-6 md:grid-cols-5">
+          {[1, 2, 3, 4, 5].map((i) => (
             <Card key={i} className="animate-pulse">
               <CardHeader>
                 <div className="h-4 bg-gray-200 rounded w-3/4"></div>
@@ -131,8 +141,11 @@ export function LiveMonitoring() {
 
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-bold">Live Monitoring</h2>
-      <div className="grid gap-6 md:grid-cols-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Live Monitoring</h2>
+        <Badge className={connectionBadge.className}>{connectionBadge.label}</Badge>
+      </div>
+      <div className="grid gap-6 md:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Elections</CardTitle>
@@ -169,6 +182,16 @@ export function LiveMonitoring() {
             <div className="text-2xl font-bold">{totalVotes}</div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last {RATE_WINDOW_MINUTES} Minutes</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{liveVotes.votesInWindow}</div>
+            <p className="text-xs text-muted-foreground">{liveVotes.votesPerMinute.toFixed(1)} votes/min</p>
+          </CardContent>
+        </Card>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -4,19 +4,17 @@ import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Download, RefreshCw } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { RefreshCw } from "lucide-react"
 import { supabaseOperations } from "@/lib/supabase"
+import { DEFAULT_SIGNATORIES, exportDocument, exportFileName, type ExportFormat } from "@/lib/exports"
+import { ExportMenu } from "@/components/admin/export-menu"
+import { LedgerCheck } from "@/components/admin/ledger-check"
+import { describeRunoff, type RunoffResult } from "@/lib/ranked-choice"
+import type { ReferendumResult } from "@/lib/elections"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/hooks/use-toast"
 
-interface Election {
-  id: string
-  title: string
-  start_time: string
-  end_time: string
-  is_active: boolean
-}
-
 interface Post {
   id: string
   title: string
@@ -30,48 +28,43 @@ interface Candidate {
   vote_count: number
   percentage: number
   department: string
+  elected: boolean
+}
+
+interface ReportsSectionProps {
+  electionId: string | null
+  canSealLedger: boolean
 }
 
-export function ReportsSection() {
-  const [elections, setElections] = useState<Election[]>([])
-  const [selectedElectionId, setSelectedElectionId] = useState<string | null>(null)
+export function ReportsSection({ electionId, canSealLedger }: ReportsSectionProps) {
   const [posts, setPosts] = useState<Post[]>([])
-  const [results, setResults] = useState<{ [postId: string]: { candidates: Candidate[]; total_votes: number } }>({})
+  const [election, setElection] = useState<{ id: string; title: string } | null>(null)
+  const [eligibleCount, setEligibleCount] = useState(0)
+  const [results, setResults] = useState<{
+    [postId: string]: {
+      candidates: Candidate[]
+      total_votes: number
+      abstentions: number
+      runoff?: RunoffResult
+      referendum?: ReferendumResult
+    }
+  }>({})
   const [loading, setLoading] = useState(true)
   const { toast } = useToast()
 
-  const fetchElections = async () => {
-    setLoading(true)
-    try {
-      const data = await supabaseOperations.getElections()
-      setElections(data || [])
-      if (data && data.length > 0) {
-        setSelectedElectionId(data[0].id) // Select the first election by default
-      }
-    } catch (error) {
-      console.error("Error fetching elections:", error)
-      toast({
-        title: "Error",
-        description: "Failed to load elections for reports.",
-        variant: "destructive",
-      })
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const fetchReports = async (electionId: string) => {
     setLoading(true)
     try {
-      const postsData = await supabaseOperations.getPosts(electionId)
+      const [electionData, postsData, electionResults, eligibleVoterCount] = await Promise.all([
+        supabaseOperations.getElection(electionId),
+        supabaseOperations.getPosts(electionId),
+        supabaseOperations.getElectionResults(electionId),
+        supabaseOperations.getEligibleVoterCount(),
+      ])
+      setElection(electionData)
       setPosts(postsData || [])
-
-      const newResults: { [postId: string]: { candidates: Candidate[]; total_votes: number } } = {}
-      for (const post of postsData) {
-        const postResults = await supabaseOperations.getPostResults(post.id)
-        newResults[post.id] = postResults
-      }
-      setResults(newResults)
+      setResults(electionResults)
+      setEligibleCount(eligibleVoterCount)
     } catch (error) {
       console.error("Error fetching reports:", error)
       toast({
@@ -85,23 +78,87 @@ export function ReportsSection() {
   }
 
   useEffect(() => {
-    fetchElections()
-  }, [])
+    if (electionId) {
+      fetchReports(electionId)
+    } else {
+      setElection(null)
+      setPosts([])
+      setResults({})
+      setLoading(false)
+    }
+  }, [electionId])
 
-  useEffect(() => {
-    if (selectedElectionId) {
-      fetchReports(selectedElectionId)
+  const turnout = (votes: number) =>
+    eligibleCount > 0 ? `${votes} of ${eligibleCount} eligible voters (${((votes / eligibleCount) * 100).toFixed(1)}%)` : `${votes}`
+
+  const share = (count: number, total: number) => `${(total > 0 ? (count / total) * 100 : 0).toFixed(2)}%`
+
+  // For ranked posts, who the instant-runoff count elected; the vote counts shown are first preferences.
+  // For referendums, the Yes/No split; the vote count shown is Yes votes.
+  const countSummary = (postId: string) => {
+    const postResults = results[postId]
+    if (postResults?.referendum) {
+      const { yes, no, threshold, approved } = postResults.referendum
+      return `Referendum: ${yes} Yes, ${no} No; more than ${threshold}% Yes needed, threshold ${approved ? "met" : "not met"}`
+    }
+    if (!postResults?.runoff) return null
+    const names = Object.fromEntries(postResults.candidates.map((candidate) => [candidate.id, candidate.name]))
+    return `Instant-runoff: ${describeRunoff(postResults.runoff, (id) => names[id])}`
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!election) return
+
+    try {
+      await exportDocument(
+        {
+          title: `${election.title} Results`,
+          subtitle: "Official result sheet",
+          generatedAt: new Date(),
+          tables: posts.map((post) => {
+            const postResults = results[post.id] || { candidates: [], total_votes: 0, abstentions: 0 }
+            return {
+              title: post.title,
+              columns: ["Candidate", "Department", "Votes", "Percentage", "Elected"],
+              rows: [
+                ...postResults.candidates.map((candidate) => [
+                  candidate.name,
+                  candidate.department || "",
+                  candidate.vote_count,
+                  `${candidate.percentage.toFixed(2)}%`,
+                  candidate.elected ? "Yes" : "",
+                ]),
+                // Abstentions count toward turnout and the total, but for no candidate
+                ...(postResults.abstentions > 0
+                  ? [["Abstained", "", postResults.abstentions, share(postResults.abstentions, postResults.total_votes), ""]]
+                  : []),
+              ],
+              notes: [
+                `Total votes: ${postResults.total_votes}`,
+                `Turnout: ${turnout(postResults.total_votes)}`,
+                ...(countSummary(post.id)
+                  ? [
+                      `${countSummary(post.id)} (votes above are ${
+                        postResults.referendum ? "Yes votes" : "first preferences"
+                      })`,
+                    ]
+                  : []),
+              ],
+            }
+          }),
+          signatories: DEFAULT_SIGNATORIES,
+        },
+        format,
+        exportFileName(election.title, "results"),
+      )
+    } catch (error) {
+      console.error("Error exporting report:", error)
+      toast({
+        title: "Error",
+        description: "Failed to export the election report.",
+        variant: "destructive",
+      })
     }
-  }, [selectedElectionId])
-
-  const handleExport = () => {
-    // Logic to export data, e.g., as CSV or PDF
-    console.log("Exporting report data...")
-    toast({
-      title: "Feature Not Implemented",
-      description: "Report export is a demo feature. Implement backend logic for real functionality.",
-      variant: "default",
-    })
   }
 
   if (loading) {
@@ -138,41 +195,23 @@ export function ReportsSection() {
           <p className="text-gray-600">View detailed results for past and ongoing elections</p>
         </div>
         <div className="flex space-x-2">
-          <Button variant="outline" onClick={() => selectedElectionId && fetchReports(selectedElectionId)}>
+          <Button variant="outline" onClick={() => electionId && fetchReports(electionId)}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button onClick={handleExport}>
-            <Download className="h-4 w-4 mr-2" />
-            Export Report
-          </Button>
+          <ExportMenu label="Export Report" onExport={handleExport} disabled={!election || posts.length === 0} />
         </div>
       </div>
 
-      <div className="flex items-center gap-2">
-        <label htmlFor="election-select" className="font-medium text-gray-700">
-          Select Election:
-        </label>
-        <select
-          id="election-select"
-          className="p-2 border rounded-md"
-          value={selectedElectionId || ""}
-          onChange={(e) => setSelectedElectionId(e.target.value)}
-        >
-          {elections.map((election) => (
-            <option key={election.id} value={election.id}>
-              {election.title}
-            </option>
-          ))}
-        </select>
-      </div>
-
-      {selectedElectionId && posts.length > 0 ? (
+      {electionId && posts.length > 0 ? (
         posts.map((post) => (
           <Card key={post.id}>
             <CardHeader>
               <CardTitle>{post.title} Results</CardTitle>
-              <CardDescription>Total Votes: {results[post.id]?.total_votes || 0}</CardDescription>
+              <CardDescription>
+                Total Votes: {results[post.id]?.total_votes || 0} · Turnout: {turnout(results[post.id]?.total_votes || 0)}
+                {countSummary(post.id) && <span className="block mt-1">{countSummary(post.id)}</span>}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
@@ -187,12 +226,25 @@ export function ReportsSection() {
                 <TableBody>
                   {results[post.id]?.candidates.map((candidate) => (
                     <TableRow key={candidate.id}>
-                      <TableCell className="font-medium">{candidate.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {candidate.name}
+                        {candidate.elected && <Badge className="ml-2">Elected</Badge>}
+                      </TableCell>
                       <TableCell>{candidate.department}</TableCell>
                       <TableCell className="text-right">{candidate.vote_count}</TableCell>
                       <TableCell className="text-right">{candidate.percentage.toFixed(2)}%</TableCell>
                     </TableRow>
                   ))}
+                  {(results[post.id]?.abstentions || 0) > 0 && (
+                    <TableRow className="text-muted-foreground">
+                      <TableCell className="italic">Abstained</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{results[post.id].abstentions}</TableCell>
+                      <TableCell className="text-right">
+                        {share(results[post.id].abstentions, results[post.id].total_votes)}
+                      </TableCell>
+                    </TableRow>
+                  )}
                 </TableBody>
               </Table>
             </CardContent>
@@ -201,6 +253,8 @@ export function ReportsSection() {
       ) : (
         <p className="text-center text-muted-foreground">No elections or posts found for reporting.</p>
       )}
+
+      {electionId && <LedgerCheck electionId={electionId} canSeal={canSealLedger} />}
     </div>
   )
 }
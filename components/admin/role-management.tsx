@@ -0,0 +1,176 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RefreshCw, Search } from "lucide-react"
+import { supabaseOperations } from "@/lib/supabase"
+import { useAuth } from "@/components/auth-provider"
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  USER_ROLES,
+  isStaffRole,
+  roleApi,
+  type StaffProfile,
+  type UserRole,
+} from "@/lib/roles"
+import { useToast } from "@/hooks/use-toast"
+
+export function RoleManagement() {
+  const [profiles, setProfiles] = useState<StaffProfile[]>([])
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const currentUserId = useAuth().user?.id
+  const { toast } = useToast()
+
+  const fetchProfiles = async () => {
+    setLoading(true)
+    try {
+      setProfiles((await supabaseOperations.getAllUsers()) || [])
+    } catch (error) {
+      console.error("Error fetching profiles:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load users.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  const handleRoleChange = async (profile: StaffProfile, role: UserRole) => {
+    setSavingId(profile.id)
+    try {
+      const updated = await roleApi.setRole(profile.id, role)
+      setProfiles((current) => current.map((p) => (p.id === updated.id ? updated : p)))
+      toast({
+        title: "Role updated",
+        description: `${profile.name}: ${ROLE_LABELS[updated.role]}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change role.",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  // Staff first, so the people holding access are easy to review
+  const visibleProfiles = profiles
+    .filter(
+      (p) =>
+        !query ||
+        p.name.toLowerCase().includes(query) ||
+        p.email.toLowerCase().includes(query) ||
+        p.matric_no?.toLowerCase().includes(query),
+    )
+    .sort((a, b) => Number(isStaffRole(b.role)) - Number(isStaffRole(a.role)))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Roles</h2>
+          <p className="text-gray-600">Decide who can run elections, manage candidates and view results</p>
+        </div>
+        <Button variant="outline" onClick={fetchProfiles}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What each role can do</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-3 md:grid-cols-2">
+          {USER_ROLES.map((role) => (
+            <div key={role} className="flex items-start gap-2">
+              <Badge variant={isStaffRole(role) ? "default" : "secondary"}>{ROLE_LABELS[role]}</Badge>
+              <span className="text-sm text-gray-600">{ROLE_DESCRIPTIONS[role]}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>{profiles.filter((p) => isStaffRole(p.role)).length} users hold an admin role</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search by name, email or matric number"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          {loading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : visibleProfiles.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No users match this search.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Matric No</TableHead>
+                  <TableHead className="w-56">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleProfiles.map((profile) => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">{profile.name}</TableCell>
+                    <TableCell>{profile.email}</TableCell>
+                    <TableCell>{profile.matric_no || "—"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={profile.role}
+                        onValueChange={(role) => handleRoleChange(profile, role as UserRole)}
+                        // Your own role is changed by another super-admin, so nobody locks themselves out
+                        disabled={profile.id === currentUserId || savingId === profile.id}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -9,14 +9,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Upload, Download, Users, UserCheck, UserX, RefreshCw } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Upload, Users, UserCheck, UserX, RefreshCw, AlertTriangle } from "lucide-react"
 import { supabaseOperations } from "@/lib/supabase"
+import { voterRegisterApi, type RegisterDiff } from "@/lib/voter-register"
+import { DEFAULT_SIGNATORIES, exportDocument, exportFileName, type ExportFormat } from "@/lib/exports"
+import { ExportMenu } from "@/components/admin/export-menu"
+import { AccountRepair } from "@/components/admin/account-repair"
 import { useToast } from "@/hooks/use-toast"
 
 interface EligibleVoter {
   matric_no: string
   name: string
   department: string
+  email: string | null
 }
 
 interface UserProfile {
@@ -25,34 +31,37 @@ interface UserProfile {
   name: string
   matric_no: string
   role: string
+  verified_at: string | null
 }
 
-interface Vote {
+interface Participation {
   user_id: string
   post_id: string
-  candidate_id: string
   created_at: string
 }
 
 export function UserManagement() {
   const [eligibleVoters, setEligibleVoters] = useState<EligibleVoter[]>([])
   const [registeredUsers, setRegisteredUsers] = useState<UserProfile[]>([])
-  const [allVotes, setAllVotes] = useState<Vote[]>([])
+  const [participation, setParticipation] = useState<Participation[]>([])
   const [loading, setLoading] = useState(true)
+  const [importFile, setImportFile] = useState<{ name: string; csv: string } | null>(null)
+  const [importPreview, setImportPreview] = useState<RegisterDiff | null>(null)
+  const [importing, setImporting] = useState(false)
   const { toast } = useToast()
 
   const fetchData = async () => {
     setLoading(true)
     try {
-      const [votersData, usersData, votesData] = await Promise.all([
+      const [votersData, usersData, participationData] = await Promise.all([
         supabaseOperations.getEligibleVoters(),
         supabaseOperations.getAllUsers(), // Fetch all profiles
-        supabaseOperations.getAllVotes(), // Fetch all votes
+        supabaseOperations.getParticipation(),
       ])
 
       setEligibleVoters(votersData || [])
-      setRegisteredUsers(usersData.filter((u: any) => u.role !== "admin") || [])
-      setAllVotes(votesData || [])
+      setRegisteredUsers(usersData.filter((u: any) => u.role === "user") || [])
+      setParticipation(participationData || [])
     } catch (error) {
       console.error("Error fetching user management data:", error)
       toast({
@@ -69,27 +78,98 @@ export function UserManagement() {
     fetchData()
   }, [])
 
-  const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleCSVUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
-    if (file) {
-      // In a real app, this would parse the CSV and update the database
-      console.log("CSV file uploaded:", file.name)
+    e.target.value = "" // Allow picking the same file again after fixing it
+    if (!file) return
+
+    setImporting(true)
+    try {
+      const csv = await file.text()
+      const preview = await voterRegisterApi.previewImport(csv)
+      setImportFile({ name: file.name, csv })
+      setImportPreview(preview)
+    } catch (error: any) {
+      console.error("Error previewing CSV import:", error)
       toast({
-        title: "Feature Not Implemented",
-        description: "CSV upload is a demo feature. Implement backend logic for real functionality.",
-        variant: "default",
+        title: "Error",
+        description: error?.message || "Failed to read the CSV file.",
+        variant: "destructive",
       })
+    } finally {
+      setImporting(false)
     }
   }
 
-  const exportData = () => {
-    // In a real app, this would generate and download a CSV file
-    console.log("Exporting user data...")
-    toast({
-      title: "Feature Not Implemented",
-      description: "Data export is a demo feature. Implement backend logic for real functionality.",
-      variant: "default",
-    })
+  const cancelImport = () => {
+    setImportFile(null)
+    setImportPreview(null)
+  }
+
+  const applyImport = async () => {
+    if (!importFile) return
+
+    setImporting(true)
+    try {
+      const summary = await voterRegisterApi.applyImport(importFile.csv)
+      toast({
+        title: "Register Imported",
+        description: `${summary.added} added, ${summary.updated} updated, ${summary.removed} removed (${summary.total} voters).`,
+      })
+      cancelImport()
+      fetchData()
+    } catch (error: any) {
+      console.error("Error applying CSV import:", error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to import the voter register.",
+        variant: "destructive",
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const exportData = async (format: ExportFormat) => {
+    const votedCount = eligibleVoters.filter((voter) => getVotingStatus(voter.matric_no)).length
+    const registeredCount = eligibleVoters.filter((voter) => getRegistrationStatus(voter.matric_no)).length
+
+    try {
+      await exportDocument(
+        {
+          title: "Voter Turnout Register",
+          generatedAt: new Date(),
+          tables: [
+            {
+              title: "Eligible Voters",
+              columns: ["Matric No", "Name", "Department", "Registered", "Voted"],
+              rows: eligibleVoters.map((voter) => [
+                voter.matric_no,
+                voter.name,
+                voter.department || "",
+                getRegistrationStatus(voter.matric_no) ? "Yes" : "No",
+                getVotingStatus(voter.matric_no) ? "Yes" : "No",
+              ]),
+              notes: [
+                `Eligible voters: ${eligibleVoters.length}`,
+                `Registered: ${registeredCount}`,
+                `Voted: ${votedCount}`,
+              ],
+            },
+          ],
+          signatories: DEFAULT_SIGNATORIES,
+        },
+        format,
+        exportFileName("voter-turnout-register"),
+      )
+    } catch (error) {
+      console.error("Error exporting turnout register:", error)
+      toast({
+        title: "Error",
+        description: "Failed to export the turnout register.",
+        variant: "destructive",
+      })
+    }
   }
 
   const getRegistrationStatus = (matricNo: string) => {
@@ -99,7 +179,7 @@ export function UserManagement() {
   const getVotingStatus = (matricNo: string) => {
     const userProfile = registeredUsers.find((u) => u.matric_no === matricNo)
     if (!userProfile) return false
-    return allVotes.some((vote) => vote.user_id === userProfile.id)
+    return participation.some((row) => row.user_id === userProfile.id)
   }
 
   if (loading) {
@@ -152,20 +232,32 @@ export function UserManagement() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button variant="outline" onClick={exportData}>
-            <Download className="h-4 w-4 mr-2" />
-            Export Data
-          </Button>
-          <Button>
+          <ExportMenu
+            label="Export Data"
+            variant="outline"
+            onExport={exportData}
+            disabled={eligibleVoters.length === 0}
+          />
+          <Button disabled={importing}>
             <Upload className="h-4 w-4 mr-2" />
             <label htmlFor="csv-upload" className="cursor-pointer">
-              Upload CSV
+              {importing ? "Reading..." : "Upload CSV"}
             </label>
             <input id="csv-upload" type="file" accept=".csv" className="hidden" onChange={handleCSVUpload} />
           </Button>
         </div>
       </div>
 
+      {importPreview && importFile && (
+        <ImportPreview
+          fileName={importFile.name}
+          preview={importPreview}
+          importing={importing}
+          onApply={applyImport}
+          onCancel={cancelImport}
+        />
+      )}
+
       {/* Statistics Cards */}
       <div className="grid gap-6 md:grid-cols-4">
         <Card>
@@ -229,6 +321,7 @@ export function UserManagement() {
                 <TableHead>Matric No</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>Department</TableHead>
+                <TableHead>Email</TableHead>
                 <TableHead>Registration Status</TableHead>
                 <TableHead>Voting Status</TableHead>
               </TableRow>
@@ -236,6 +329,7 @@ export function UserManagement() {
             <TableBody>
               {eligibleVoters.map((voter) => {
                 const isRegistered = getRegistrationStatus(voter.matric_no)
+                const isVerified = registeredUsers.some((u) => u.matric_no === voter.matric_no && u.verified_at)
                 const hasVoted = getVotingStatus(voter.matric_no)
 
                 return (
@@ -243,9 +337,10 @@ export function UserManagement() {
                     <TableCell className="font-medium">{voter.matric_no}</TableCell>
                     <TableCell>{voter.name}</TableCell>
                     <TableCell>{voter.department}</TableCell>
+                    <TableCell>{voter.email || "—"}</TableCell>
                     <TableCell>
-                      <Badge variant={isRegistered ? "default" : "secondary"}>
-                        {isRegistered ? "Registered" : "Not Registered"}
+                      <Badge variant={isVerified ? "default" : isRegistered ? "outline" : "secondary"}>
+                        {isVerified ? "Registered" : isRegistered ? "Email Unverified" : "Not Registered"}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -258,6 +353,160 @@ export function UserManagement() {
           </Table>
         </CardContent>
       </Card>
+
+      <AccountRepair />
+    </div>
+  )
+}
+
+// Rows listed per section of the preview; the counts always cover the whole file
+const PREVIEW_LIMIT = 50
+
+interface ImportPreviewProps {
+  fileName: string
+  preview: RegisterDiff
+  importing: boolean
+  onApply: () => void
+  onCancel: () => void
+}
+
+function ImportPreview({ fileName, preview, importing, onApply, onCancel }: ImportPreviewProps) {
+  const hasIssues = preview.issues.length > 0
+  const hasChanges = preview.add.length + preview.update.length + preview.remove.length > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Preview — {fileName}</CardTitle>
+        <CardDescription>
+          The register will be replaced by this file. Voters missing from it will be removed.
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{preview.add.length} to add</Badge>
+          <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{preview.update.length} to update</Badge>
+          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{preview.remove.length} to remove</Badge>
+          <Badge variant="outline">{preview.unchanged} unchanged</Badge>
+          {hasIssues && <Badge variant="destructive">{preview.issues.length} flagged</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {preview.emails_kept && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This file has no email column, so voters already on the register keep their email. New voters will have
+              none, and can't register until one is added.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {hasIssues && (
+          <div className="space-y-2">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>Fix the flagged rows in your spreadsheet and upload it again to import.</AlertDescription>
+            </Alert>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Matric No</TableHead>
+                  <TableHead>Problem</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.issues.slice(0, PREVIEW_LIMIT).map((issue) => (
+                  <TableRow key={issue.line}>
+                    <TableCell>{issue.line}</TableCell>
+                    <TableCell className="font-mono">{issue.matric_no || "—"}</TableCell>
+                    <TableCell>{issue.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {preview.add.length > 0 && (
+          <PreviewSection title="To Add">
+            {preview.add.slice(0, PREVIEW_LIMIT).map((row) => (
+              <TableRow key={row.matric_no}>
+                <TableCell className="font-medium">{row.matric_no}</TableCell>
+                <TableCell>{row.name}</TableCell>
+                <TableCell>{row.department}</TableCell>
+                <TableCell>{row.email}</TableCell>
+              </TableRow>
+            ))}
+          </PreviewSection>
+        )}
+
+        {preview.update.length > 0 && (
+          <PreviewSection title="To Update">
+            {preview.update.slice(0, PREVIEW_LIMIT).map(({ before, after }) => (
+              <TableRow key={after.matric_no}>
+                <TableCell className="font-medium">{after.matric_no}</TableCell>
+                <TableCell>
+                  {before.name !== after.name && <span className="line-through text-gray-400 mr-2">{before.name}</span>}
+                  {after.name}
+                </TableCell>
+                <TableCell>
+                  {(before.department || null) !== after.department && (
+                    <span className="line-through text-gray-400 mr-2">{before.department}</span>
+                  )}
+                  {after.department}
+                </TableCell>
+                <TableCell>
+                  {(before.email || null) !== after.email && (
+                    <span className="line-through text-gray-400 mr-2">{before.email}</span>
+                  )}
+                  {after.email}
+                </TableCell>
+              </TableRow>
+            ))}
+          </PreviewSection>
+        )}
+
+        {preview.remove.length > 0 && (
+          <PreviewSection title="To Remove">
+            {preview.remove.slice(0, PREVIEW_LIMIT).map((row) => (
+              <TableRow key={row.matric_no}>
+                <TableCell className="font-medium">{row.matric_no}</TableCell>
+                <TableCell>{row.name}</TableCell>
+                <TableCell>{row.department}</TableCell>
+                <TableCell>{row.email}</TableCell>
+              </TableRow>
+            ))}
+          </PreviewSection>
+        )}
+
+        <div className="flex space-x-2">
+          <Button onClick={onApply} disabled={importing || hasIssues || !hasChanges}>
+            {importing ? "Importing..." : "Apply Import"}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={importing}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function PreviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Matric No</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Department</TableHead>
+            <TableHead>Email</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>{children}</TableBody>
+      </Table>
     </div>
   )
 }
@@ -0,0 +1,85 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import type React from "react"
+import { authService, type User } from "@/lib/auth"
+
+interface AuthContextValue {
+  // The signed-in user's profile, or null when there is no session (or no profile yet)
+  user: User | null
+  // True until the initial session has been checked
+  loading: boolean
+  refresh: () => Promise<void>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+// Holds the user from the Supabase session rather than from a copy in localStorage, so an
+// expired session or a changed role or name is picked up without signing in again
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadProfile = useCallback(async (userId: string | null) => {
+    if (!userId) {
+      setUser(null)
+      return
+    }
+
+    try {
+      setUser(await authService.getProfile(userId))
+    } catch (error) {
+      // Keep what we have; a network blip shouldn't look like a sign-out
+      console.error("Error refreshing profile:", error)
+    }
+  }, [])
+
+  // Supabase refreshes an expiring token itself and reports SIGNED_OUT if it can't,
+  // so the local session is enough to know who to reload
+  const refresh = useCallback(async () => {
+    const session = await authService.getSession()
+    await loadProfile(session?.user.id ?? null)
+  }, [loadProfile])
+
+  const signOut = useCallback(async () => {
+    await authService.signOut()
+    setUser(null)
+  }, [])
+
+  useEffect(() => {
+    // Older builds kept the profile here; it is no longer read, so don't leave it lying around
+    localStorage.removeItem("currentUser")
+
+    const unsubscribe = authService.onAuthStateChange((event, session) => {
+      // Supabase calls made inside this callback can deadlock the auth client, so defer them
+      setTimeout(async () => {
+        await loadProfile(event === "SIGNED_OUT" ? null : (session?.user.id ?? null))
+        setLoading(false)
+      }, 0)
+    })
+
+    // Roles and names can change while the tab sits in the background
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") refresh()
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      unsubscribe()
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [loadProfile, refresh])
+
+  const value = useMemo(() => ({ user, loading, refresh, signOut }), [user, loading, refresh, signOut])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Check, Copy, Download, ShieldCheck } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { downloadBlob, exportFileName } from "@/lib/exports"
+import { formatReceipt } from "@/lib/receipts"
+
+interface BallotReceiptProps {
+  receipt: string
+  postTitle: string
+  electionTitle?: string
+  votedAt: string
+}
+
+// Shown once, straight after voting: the server keeps no copy it could hand out again
+export function BallotReceipt({ receipt, postTitle, electionTitle, votedAt }: BallotReceiptProps) {
+  const [copied, setCopied] = useState(false)
+  const verifyPath = `/verify?receipt=${receipt}`
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(receipt)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const download = () => {
+    const lines = [
+      "Ballot receipt",
+      "",
+      ...(electionTitle ? [`Election: ${electionTitle}`] : []),
+      `Position: ${postTitle}`,
+      `Cast: ${new Date(votedAt).toLocaleString()}`,
+      `Receipt: ${formatReceipt(receipt)}`,
+      "",
+      "This receipt shows that your ballot was counted. It does not record who you voted for.",
+      `Check it at ${window.location.origin}${verifyPath}`,
+    ]
+    downloadBlob(
+      new Blob([lines.join("\r\n")], { type: "text/plain;charset=utf-8" }),
+      `${exportFileName(postTitle, "receipt")}.txt`,
+    )
+  }
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center gap-2 font-semibold text-gray-800">
+        <ShieldCheck className="h-5 w-5 text-green-600" />
+        Your Ballot Receipt
+      </div>
+      <p className="rounded-lg bg-gray-100 p-3 font-mono text-sm break-all">{formatReceipt(receipt)}</p>
+      <p className="text-xs text-gray-600">
+        Keep this code to check that your ballot is in the published list for this position. It does not show who you
+        voted for, and it can't be shown again.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy}>
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+        <Link href={verifyPath}>
+          <Button type="button" variant="outline" size="sm">
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Verify
+          </Button>
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, ArrowRight, CheckCircle, CloudOff, Loader2, LogIn, Pencil } from "lucide-react"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Progress } from "@/components/ui/progress"
+
+import { useAuth } from "@/components/auth-provider"
+import { BallotReceipt } from "@/components/ballot-receipt"
+import { ChoiceSummary, EMPTY_CHOICE, PostBallot, ballotVote, type BallotChoice } from "@/components/post-ballot"
+import {
+  VOTE_DELIVERY_LABELS,
+  enqueueBallot,
+  getQueuedEntries,
+  sendQueued,
+  type QueuedBallot,
+  type VoteDeliveryStatus,
+} from "@/lib/vote-queue"
+import { ApiError } from "@/lib/api"
+import {
+  VOTE_ERROR_MESSAGES,
+  isRetryableVoteError,
+  isSignedOutVoteError,
+  type CastVoteInput,
+  type CastVoteResult,
+} from "@/lib/votes"
+import type { User } from "@/lib/auth"
+import type { Election, PostWithRelations } from "@/app/vote/[postId]/page"
+
+// How often a ballot waiting on this page is retried while the browser reports being online
+const RETRY_INTERVAL = 30000
+
+interface BallotWizardProps {
+  election: Pick<Election, "id" | "title">
+  // The positions still to vote on, in ballot order
+  posts: PostWithRelations[]
+  user: User
+}
+
+// Steps through each position, then reviews every choice on one screen and casts them together.
+// Positions left blank are skipped and can be voted on later.
+export function BallotWizard({ election, posts: initialPosts, user }: BallotWizardProps) {
+  const [posts, setPosts] = useState(initialPosts)
+  const [choices, setChoices] = useState<Record<string, BallotChoice>>({})
+  // posts.length is the review step
+  const [step, setStep] = useState(0)
+  const [error, setError] = useState<{ message: string; postId?: string } | null>(null)
+  const [castVotes, setCastVotes] = useState<CastVoteResult[] | null>(null)
+  // The ballot once submitted, kept on this device until the server has it. Its choices are fixed
+  // from then on: a retry must send what the first attempt did, as the server may already have it.
+  const [queued, setQueued] = useState<QueuedBallot | null>(null)
+  const [delivery, setDelivery] = useState<VoteDeliveryStatus | null>(null)
+  // Whether a send has failed for want of a connection, or the ballot was left queued by an earlier visit
+  const [waiting, setWaiting] = useState(false)
+  const router = useRouter()
+  const { signOut } = useAuth()
+  const electionHref = `/elections/${election.id}`
+
+  const choiceFor = (post: PostWithRelations) => choices[post.id] || EMPTY_CHOICE
+  const votes = posts
+    .map((post) => ballotVote(post, choiceFor(post)))
+    .filter((vote): vote is CastVoteInput => !!vote)
+  const isReview = step >= posts.length
+  const post = posts[step]
+  const isLoading = delivery === "sent"
+
+  const deliver = async (entry: QueuedBallot) => {
+    setDelivery("sent")
+    setError(null)
+
+    try {
+      // The server checks every vote as it would a single one and records all of them or none
+      setCastVotes(await sendQueued(entry))
+      setDelivery("confirmed")
+      setWaiting(false)
+    } catch (err) {
+      console.error("Ballot submission error:", err)
+      // Anything but an ApiError is a network or unexpected failure, so it stays queued too
+      if (!(err instanceof ApiError) || isRetryableVoteError(err)) {
+        setDelivery("pending")
+        setWaiting(true)
+        return
+      }
+      if (isSignedOutVoteError(err)) {
+        setDelivery("signed_out")
+        setWaiting(true)
+        return
+      }
+
+      // Rejected outright, so nothing was recorded: the choices can change and the next submission is new
+      setQueued(null)
+      setDelivery(null)
+      setWaiting(false)
+
+      const failedPost = posts.find((p) => p.id === err.postId)
+      const message = err.message || VOTE_ERROR_MESSAGES.INTERNAL_ERROR
+
+      if (failedPost && err.code === "ALREADY_VOTED") {
+        // Voted on in another tab meanwhile; nothing else was recorded, so the rest can go again
+        setPosts(posts.filter((p) => p.id !== failedPost.id))
+        setError({ message: `${failedPost.title}: ${message} It has been taken off this ballot; submit again to cast the rest.` })
+      } else {
+        setError({ message: failedPost ? `${failedPost.title}: ${message}` : message, postId: failedPost?.id })
+      }
+    }
+  }
+
+  const handleBallotSubmit = async () => {
+    if (!queued && votes.length === 0) return
+
+    const entry =
+      queued ??
+      (await enqueueBallot(
+        user.id,
+        election.title,
+        Object.fromEntries(posts.map((p) => [p.id, p.title])),
+        { election_id: election.id, votes },
+      ))
+    setQueued(entry)
+    await deliver(entry)
+  }
+
+  // A ballot for this election still queued from an earlier visit carries on where it left off
+  useEffect(() => {
+    getQueuedEntries(user.id)
+      .then((entries) => {
+        const entry = entries.find(
+          (e): e is QueuedBallot => e.kind === "ballot" && e.input.election_id === election.id,
+        )
+        if (!entry) return
+        setQueued(entry)
+        setDelivery("pending")
+        setWaiting(true)
+      })
+      .catch((err) => console.error("Error reading the vote queue:", err))
+  }, [user.id, election.id])
+
+  // Retry a pending ballot when the connection returns, and now and then in case it never dropped
+  useEffect(() => {
+    if (delivery !== "pending" || !queued) return
+
+    const retry = () => deliver(queued)
+    const timer = setInterval(() => navigator.onLine && retry(), RETRY_INTERVAL)
+    window.addEventListener("online", retry)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener("online", retry)
+    }
+  }, [delivery, queued])
+
+  // Final success screen, with a receipt for each position voted on
+  if (castVotes) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
+        <Card className="w-full max-w-2xl text-center p-6">
+          <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+          <CardTitle className="text-2xl font-bold mb-2">Ballot Recorded!</CardTitle>
+          <Badge variant="secondary" className="mb-4 bg-green-100 text-green-800">
+            {VOTE_DELIVERY_LABELS.confirmed}
+          </Badge>
+          <CardDescription className="text-gray-600 mb-6">
+            Your votes for {castVotes.length === 1 ? "1 position" : `${castVotes.length} positions`} in {election.title}{" "}
+            have been recorded. Keep a receipt for each.
+          </CardDescription>
+          <div className="space-y-6 mb-6">
+            {castVotes.map((vote) => (
+              <BallotReceipt
+                key={vote.post_id}
+                receipt={vote.receipt}
+                postTitle={queued?.post_titles[vote.post_id] || "Position"}
+                electionTitle={election.title}
+                votedAt={vote.created_at}
+              />
+            ))}
+          </div>
+          <Button onClick={() => router.push(electionHref)}>Return to Election</Button>
+        </Card>
+      </div>
+    )
+  }
+
+  // Sending, or saved on this device until it can be sent
+  if (queued && waiting && delivery && delivery !== "confirmed") {
+    const titles = queued.input.votes.map((vote) => queued.post_titles[vote.post_id] || "Position")
+
+    // The session has ended; the ballot stays queued and VoteQueueSync sends it once the voter signs back in
+    if (delivery === "signed_out") {
+      const signIn = async () => {
+        await signOut()
+        router.push("/")
+      }
+
+      return (
+        <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
+          <Card className="w-full max-w-md text-center p-6">
+            <LogIn className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+            <CardTitle className="text-2xl font-bold mb-2">Sign In to Send Your Ballot</CardTitle>
+            <Badge variant="secondary" className="mb-4">
+              {VOTE_DELIVERY_LABELS.signed_out}
+            </Badge>
+            <CardDescription className="text-gray-600 mb-6">
+              Your session ended before your ballot for {titles.join(", ")} in {queued.election_title} could be sent.
+              It is saved on this device and will be sent as soon as you sign in again, and only counted once.
+            </CardDescription>
+            <Button onClick={signIn}>Sign In</Button>
+          </Card>
+        </div>
+      )
+    }
+
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
+        <Card className="w-full max-w-md text-center p-6">
+          {delivery === "sent" ? (
+            <Loader2 className="h-16 w-16 text-blue-500 mx-auto mb-4 animate-spin" />
+          ) : (
+            <CloudOff className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+          )}
+          <CardTitle className="text-2xl font-bold mb-2">
+            {delivery === "sent" ? "Sending Your Ballot" : "Ballot Waiting to Send"}
+          </CardTitle>
+          <Badge variant="secondary" className="mb-4">
+            {VOTE_DELIVERY_LABELS[delivery]}
+          </Badge>
+          <CardDescription className="text-gray-600 mb-6">
+            Your ballot for {titles.join(", ")} in {queued.election_title} is saved on this device and will be sent
+            automatically when your connection returns. It will only be counted once, however many times it is sent.
+            Keep this page open to get your receipts.
+          </CardDescription>
+          <div className="flex flex-col gap-2">
+            <Button onClick={() => deliver(queued)} disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Try Again Now
+            </Button>
+            <Button variant="outline" onClick={() => router.push(electionHref)}>
+              Return to Election
+            </Button>
+          </div>
+        </Card>
+      </div>
+    )
+  }
+
+  // Review screen
+  if (isReview) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-3xl mx-auto px-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-center">Review Your Ballot</CardTitle>
+              <CardDescription className="text-center">
+                {election.title}: {votes.length} of {posts.length} positions marked. Check each choice before
+                submitting.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error.message}</AlertDescription>
+                </Alert>
+              )}
+
+              {posts.map((p, index) => {
+                const marked = !!ballotVote(p, choiceFor(p))
+                return (
+                  <div
+                    key={p.id}
+                    className={`rounded-lg border p-4 ${error?.postId === p.id ? "ring-2 ring-red-500" : ""}`}
+                  >
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-lg font-semibold">{p.title}</h3>
+                      <Button variant="ghost" size="sm" onClick={() => setStep(index)} disabled={!!queued}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Change
+                      </Button>
+                    </div>
+                    {marked ? (
+                      <ChoiceSummary post={p} choice={choiceFor(p)} />
+                    ) : (
+                      <p className="text-sm text-gray-600">Skipped. You can vote on this position later.</p>
+                    )}
+                  </div>
+                )
+              })}
+
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Important:</strong> Once you submit your ballot, none of these votes can be changed.
+                </AlertDescription>
+              </Alert>
+
+              <div className="flex space-x-4">
+                <Button
+                  variant="outline"
+                  onClick={() => setStep(Math.max(posts.length - 1, 0))}
+                  className="flex-1"
+                  disabled={!!queued || posts.length === 0}
+                >
+                  Go Back & Change
+                </Button>
+                <Button onClick={handleBallotSubmit} className="flex-1" disabled={isLoading || votes.length === 0}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Submit Ballot
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const marked = !!ballotVote(post, choiceFor(post))
+
+  // One step per position
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="mb-6">
+          <Link href={electionHref}>
+            <Button variant="ghost" className="mb-4">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Election
+            </Button>
+          </Link>
+
+          <div className="mb-6">
+            <div className="flex justify-between text-sm text-gray-600 mb-2">
+              <span>
+                Position {step + 1} of {posts.length}
+              </span>
+              <span>{votes.length} marked</span>
+            </div>
+            <Progress value={(step / posts.length) * 100} />
+          </div>
+
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{post.title}</h1>
+            <p className="text-gray-600 mb-4">{post.description}</p>
+            <Badge variant="secondary" className="text-sm">
+              {election.title}
+            </Badge>
+          </div>
+        </div>
+
+        <PostBallot
+          key={post.id}
+          post={post}
+          choice={choiceFor(post)}
+          onChange={(choice) => setChoices({ ...choices, [post.id]: choice })}
+        />
+
+        <div className="flex justify-between mt-8">
+          <Button variant="outline" size="lg" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Previous
+          </Button>
+          <Button variant={marked ? "default" : "outline"} size="lg" onClick={() => setStep(step + 1)}>
+            {step === posts.length - 1 ? "Review Ballot" : marked ? "Next" : "Skip for Now"}
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,10 +2,11 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
+import { useAuth } from "@/components/auth-provider"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { LogOut, User, HelpCircle, Vote, Bell } from "lucide-react"
+import { LogOut, User, HelpCircle, Vote, Bell, ShieldCheck } from "lucide-react"
 import Link from "next/link"
 
 interface DashboardHeaderProps {
@@ -19,10 +20,11 @@ interface DashboardHeaderProps {
 export function DashboardHeader({ user }: DashboardHeaderProps) {
   const [loading, setLoading] = useState(false)
   const router = useRouter()
+  const { signOut } = useAuth()
 
   const handleLogout = async () => {
     setLoading(true)
-    localStorage.removeItem("currentUser")
+    await signOut()
     router.push("/")
   }
 
@@ -55,6 +57,16 @@ export function DashboardHeader({ user }: DashboardHeaderProps) {
                 How to Vote
               </Button>
             </Link>
+            <Link href="/verify">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-600 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all duration-200"
+              >
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Verify Ballot
+              </Button>
+            </Link>
 
             <Button
               variant="ghost"
@@ -4,13 +4,15 @@ import { useState, useEffect } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Clock, AlertTriangle, Zap } from "lucide-react"
 import { Skeleton } from "./ui/skeleton"
+import { getElectionStatus, type Election, type ElectionStatus } from "@/lib/elections"
 
 interface ElectionCountdownProps {
-  endTime: string
-  title: string
+  election: Pick<Election, "title" | "status" | "start_time" | "end_time">
 }
 
-export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
+export function ElectionCountdown({ election }: ElectionCountdownProps) {
+  const { title } = election
+  const [status, setStatus] = useState<ElectionStatus>(() => getElectionStatus(election))
   const [timeLeft, setTimeLeft] = useState<{
     days: number
     hours: number
@@ -21,9 +23,13 @@ export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
 
   useEffect(() => {
     const calculateTimeLeft = () => {
-      const now = new Date().getTime()
-      const end = new Date(endTime).getTime()
-      const difference = end - now
+      const currentStatus = getElectionStatus(election)
+      setStatus(currentStatus)
+
+      // Count down to opening while scheduled and to closing while open
+      const target =
+        currentStatus === "scheduled" ? election.start_time : currentStatus === "open" ? election.end_time : null
+      const difference = target ? new Date(target).getTime() - new Date().getTime() : 0
 
       if (difference > 0) {
         const days = Math.floor(difference / (1000 * 60 * 60 * 24))
@@ -33,8 +39,8 @@ export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
 
         setTimeLeft({ days, hours, minutes, seconds })
 
-        // Show warning if less than 10 minutes left
-        setIsWarning(difference < 10 * 60 * 1000)
+        // Show warning if less than 10 minutes of voting left
+        setIsWarning(currentStatus === "open" && difference < 10 * 60 * 1000)
       } else {
         setTimeLeft(null)
       }
@@ -45,7 +51,7 @@ export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
 
     // Clear interval on component unmount
     return () => clearInterval(timer)
-  }, [endTime])
+  }, [election.status, election.start_time, election.end_time])
 
   if (!timeLeft) {
     return (
@@ -56,7 +62,13 @@ export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
               <AlertTriangle className="h-6 w-6 text-red-600" />
             </div>
             <div className="text-center">
-              <h2 className="text-2xl font-bold">Voting Has Ended</h2>
+              <h2 className="text-2xl font-bold">
+                {status === "certified"
+                  ? "Results Certified"
+                  : status === "draft"
+                    ? "Voting Not Yet Scheduled"
+                    : "Voting Has Ended"}
+              </h2>
               <p className="text-red-600 mt-1">{title}</p>
             </div>
           </div>
@@ -83,7 +95,7 @@ export function ElectionCountdown({ endTime, title }: ElectionCountdownProps) {
             </div>
             <div>
               <h2 className={`text-2xl font-bold ${isWarning ? "text-orange-700" : "text-emerald-700"}`}>
-                {isWarning ? "Voting Ends Soon!" : "Time Remaining"}
+                {isWarning ? "Voting Ends Soon!" : status === "scheduled" ? "Voting Opens In" : "Time Remaining"}
               </h2>
               <p className={`text-lg ${isWarning ? "text-orange-600" : "text-emerald-600"}`}>{title}</p>
             </div>
@@ -0,0 +1,32 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+export interface ElectionOption {
+  id: string
+  title: string
+}
+
+interface ElectionPickerProps {
+  elections: ElectionOption[]
+  value: string | null
+  onChange: (electionId: string) => void
+  className?: string
+}
+
+export function ElectionPicker({ elections, value, onChange, className }: ElectionPickerProps) {
+  return (
+    <Select value={value || ""} onValueChange={onChange} disabled={elections.length === 0}>
+      <SelectTrigger className={className || "w-72"} aria-label="Select election">
+        <SelectValue placeholder={elections.length === 0 ? "No elections available" : "Select an election"} />
+      </SelectTrigger>
+      <SelectContent>
+        {elections.map((election) => (
+          <SelectItem key={election.id} value={election.id}>
+            {election.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Loader2, AlertTriangle, MailCheck } from "lucide-react"
+import { authService } from "@/lib/auth"
+import { VERIFICATION_CODE_LENGTH, registrationApi } from "@/lib/registration"
+import { useAuth } from "@/components/auth-provider"
+
+// Seconds before another code can be requested, to stay clear of Supabase's email rate limit
+const RESEND_COOLDOWN = 60
+
+interface EmailVerificationFormProps {
+  email: string
+  // Whether a code has already gone out, e.g. by signUp(); otherwise the voter asks for one
+  codeSent?: boolean
+  onVerified: () => void
+}
+
+export function EmailVerificationForm({ email, codeSent = false, onVerified }: EmailVerificationFormProps) {
+  const [code, setCode] = useState("")
+  const [sent, setSent] = useState(codeSent)
+  const [cooldown, setCooldown] = useState(codeSent ? RESEND_COOLDOWN : 0)
+  const [sending, setSending] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+  const [error, setError] = useState("")
+  const { refresh } = useAuth()
+
+  useEffect(() => {
+    if (cooldown <= 0) return
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [cooldown])
+
+  const sendCode = async () => {
+    setSending(true)
+    setError("")
+    try {
+      const { error: sendError } = await authService.sendVerificationCode(email)
+      if (sendError) {
+        setError(sendError)
+        return
+      }
+      setSent(true)
+      setCode("")
+      setCooldown(RESEND_COOLDOWN)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const verify = async (value: string) => {
+    if (value.length !== VERIFICATION_CODE_LENGTH || verifying) return
+
+    setVerifying(true)
+    setError("")
+    try {
+      await registrationApi.verify(email, value)
+      // The route signed the voter in through cookies; load the now-verified profile
+      await refresh()
+      onVerified()
+    } catch (err: any) {
+      setError(err.message || "Verification failed. Please try again.")
+      setCode("")
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    verify(code)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-start gap-3 text-gray-600">
+        <MailCheck className="h-5 w-5 text-emerald-600 shrink-0 mt-0.5" />
+        <p className="text-sm">
+          {sent ? (
+            <>
+              We sent a {VERIFICATION_CODE_LENGTH}-digit code to <strong>{email}</strong>. Enter it below to prove this
+              matric number is yours.
+            </>
+          ) : (
+            <>
+              We'll send a {VERIFICATION_CODE_LENGTH}-digit code to <strong>{email}</strong>, the university email on
+              record for your matric number.
+            </>
+          )}
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="border-red-200 bg-red-50">
+          <AlertTriangle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {sent && (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={VERIFICATION_CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={verify}
+            disabled={verifying}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: VERIFICATION_CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {sent && (
+          <Button type="submit" className="w-full" disabled={verifying || code.length !== VERIFICATION_CODE_LENGTH}>
+            {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant={sent ? "outline" : "default"}
+          className="w-full"
+          onClick={sendCode}
+          disabled={sending || verifying || cooldown > 0}
+        >
+          {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {!sent ? "Send Code" : cooldown > 0 ? `Send a New Code (${cooldown}s)` : "Send a New Code"}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Loader2, Mail, Lock, Eye, EyeOff, Info } from "lucide-react"
 import Link from "next/link"
 import { authService } from "@/lib/auth" // Import authService
+import { isStaffRole } from "@/lib/roles"
 
 export function LoginForm() {
   const [email, setEmail] = useState("")
@@ -26,7 +27,12 @@ export function LoginForm() {
     setError("")
 
     try {
-      const { user, error: authError } = await authService.signIn(email, password)
+      const { user, error: authError, needsVerification } = await authService.signIn(email, password)
+
+      if (needsVerification) {
+        router.push(`/verify-email?email=${encodeURIComponent(email.trim())}`)
+        return
+      }
 
       if (authError) {
         setError(authError)
@@ -34,9 +40,8 @@ export function LoginForm() {
       }
 
       if (user) {
-        authService.setCurrentUser(user) // Store user session in localStorage for demo
-        // Redirect based on role
-        if (user.role === "admin") {
+        // AuthProvider picks the new session up from Supabase; just redirect based on role
+        if (isStaffRole(user.role)) {
           router.push("/admin")
         } else {
           router.push("/dashboard")
@@ -0,0 +1,235 @@
+"use client"
+
+import { Ban, CheckCircle, ThumbsDown, ThumbsUp } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+
+import { RankedBallot } from "@/components/ranked-ballot"
+import { ReferendumBallot } from "@/components/referendum-ballot"
+import { isReferendum } from "@/lib/elections"
+import type { CastVoteInput } from "@/lib/votes"
+import type { PostWithRelations, Candidate } from "@/app/vote/[postId]/page"
+
+// Everything a voter has marked on one post's ballot; which fields count depends on the post
+export interface BallotChoice {
+  selectedCandidateId: string | null
+  ranking: string[]
+  selections: string[]
+  approve: boolean | null
+  abstaining: boolean
+}
+
+export const EMPTY_CHOICE: BallotChoice = {
+  selectedCandidateId: null,
+  ranking: [],
+  selections: [],
+  approve: null,
+  abstaining: false,
+}
+
+function ballotKind(post: PostWithRelations) {
+  const isYesNo = isReferendum(post, post.candidates.length)
+  const isRanked = !isYesNo && post.voting_method === "ranked"
+  const isMultiChoice = !isYesNo && !isRanked && post.max_selections > 1
+  return { isYesNo, isRanked, isMultiChoice }
+}
+
+// The vote to send for a choice, or null while the ballot is incomplete. An abstention is a ballot
+// for no candidate. Otherwise candidate_id is, for a referendum, its candidate once Yes or No is
+// chosen; for a ranked post the first preference; for a multi-choice post the first selection.
+export function ballotVote(post: PostWithRelations, choice: BallotChoice): CastVoteInput | null {
+  if (choice.abstaining) return { post_id: post.id, candidate_id: null }
+
+  const { isYesNo, isRanked, isMultiChoice } = ballotKind(post)
+  if (isYesNo) {
+    return choice.approve === null ? null : { post_id: post.id, candidate_id: post.candidates[0].id, approve: choice.approve }
+  }
+  if (isRanked) {
+    return choice.ranking.length ? { post_id: post.id, candidate_id: choice.ranking[0], ranking: choice.ranking } : null
+  }
+  if (isMultiChoice) {
+    return choice.selections.length
+      ? { post_id: post.id, candidate_id: choice.selections[0], selections: choice.selections }
+      : null
+  }
+  return choice.selectedCandidateId ? { post_id: post.id, candidate_id: choice.selectedCandidateId } : null
+}
+
+const initials = (name: string) =>
+  name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+
+interface PostBallotProps {
+  post: PostWithRelations
+  choice: BallotChoice
+  onChange: (choice: BallotChoice) => void
+}
+
+// One post's ballot: a Yes/No, a ranking or a choice of candidates, plus the abstain option where allowed
+export function PostBallot({ post, choice, onChange }: PostBallotProps) {
+  const { isYesNo, isRanked, isMultiChoice } = ballotKind(post)
+  const { selections, abstaining } = choice
+  const update = (changes: Partial<BallotChoice>) => onChange({ ...choice, ...changes })
+
+  const isSelected = (candidateId: string) =>
+    isMultiChoice ? selections.includes(candidateId) : choice.selectedCandidateId === candidateId
+
+  const handleCandidateClick = (candidateId: string) => {
+    if (!isMultiChoice) {
+      update({ selectedCandidateId: candidateId })
+    } else if (selections.includes(candidateId)) {
+      update({ selections: selections.filter((id) => id !== candidateId) })
+    } else if (selections.length < post.max_selections) {
+      update({ selections: [...selections, candidateId] })
+    }
+  }
+
+  return (
+    <>
+      <div className={abstaining ? "pointer-events-none opacity-50" : ""} aria-disabled={abstaining}>
+        {isYesNo ? (
+          <ReferendumBallot
+            candidate={post.candidates[0]}
+            threshold={post.approval_threshold}
+            approve={choice.approve}
+            onChange={(approve) => update({ approve })}
+          />
+        ) : isRanked ? (
+          <RankedBallot candidates={post.candidates} ranking={choice.ranking} onChange={(ranking) => update({ ranking })} />
+        ) : (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold mb-1">
+              {isMultiChoice ? `Choose up to ${post.max_selections} Candidates` : "Select Your Candidate"}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {post.seats > 1 && `${post.seats} seats to fill. `}
+              {isMultiChoice && `${selections.length} of ${post.max_selections} chosen.`}
+            </p>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {post.candidates.map((candidate) => (
+                <Card
+                  key={candidate.id}
+                  className={`cursor-pointer transition-all hover:shadow-md ${
+                    isSelected(candidate.id)
+                      ? "ring-2 ring-blue-500 bg-blue-50"
+                      : isMultiChoice && selections.length >= post.max_selections
+                        ? "opacity-50 cursor-not-allowed"
+                        : "hover:border-gray-300"
+                  }`}
+                  onClick={() => handleCandidateClick(candidate.id)}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-start space-x-4">
+                      <Avatar className="h-16 w-16">
+                        <AvatarImage src={candidate.image_url || "/placeholder.svg"} />
+                        <AvatarFallback>{initials(candidate.name)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-semibold text-lg">{candidate.name}</h3>
+                          {isSelected(candidate.id) && <CheckCircle className="h-5 w-5 text-blue-600" />}
+                        </div>
+                        {candidate.department && <p className="text-gray-600 mb-2">{candidate.department}</p>}
+                        {candidate.bio && <p className="text-sm text-gray-700 line-clamp-3">{candidate.bio}</p>}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {post.allow_abstain && (
+        <Card
+          className={`max-w-xl mx-auto cursor-pointer border-dashed transition-all hover:shadow-md ${
+            abstaining ? "ring-2 ring-gray-500 bg-gray-100" : "hover:border-gray-400"
+          }`}
+          onClick={() => update({ abstaining: !abstaining })}
+        >
+          <CardContent className="p-4 flex items-center gap-3">
+            <Ban className="h-5 w-5 text-gray-600" />
+            <div className="flex-1">
+              <p className="font-semibold">Abstain / None of the above</p>
+              <p className="text-sm text-gray-600">
+                Record that you chose not to support any candidate. Your ballot still counts toward turnout.
+              </p>
+            </div>
+            {abstaining && <CheckCircle className="h-5 w-5 text-gray-700" />}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
+
+interface ChoiceSummaryProps {
+  post: PostWithRelations
+  choice: BallotChoice
+}
+
+// What the voter is about to cast for a post, for the confirmation and review screens
+export function ChoiceSummary({ post, choice }: ChoiceSummaryProps) {
+  const { isYesNo, isRanked, isMultiChoice } = ballotKind(post)
+  const vote = ballotVote(post, choice)
+  const selectedCandidate = post.candidates.find((c) => c.id === vote?.candidate_id)
+  // Every candidate on a ranked or multi-choice ballot, in the voter's order
+  const ballotCandidates = (isRanked ? choice.ranking : choice.selections)
+    .map((id) => post.candidates.find((c) => c.id === id))
+    .filter((c): c is Candidate => !!c)
+
+  if (choice.abstaining) {
+    return (
+      <div className="flex items-center justify-center gap-3 p-4 bg-gray-100 rounded-lg">
+        <Ban className="h-6 w-6 text-gray-600" />
+        <div className="text-left">
+          <p className="font-semibold text-lg">Abstain</p>
+          <p className="text-gray-600">Your ballot counts toward turnout but not for any candidate.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {isRanked || isMultiChoice ? (
+        <ol className="space-y-2 text-left">
+          {ballotCandidates.map((candidate, index) => (
+            <li key={candidate.id} className="flex items-center gap-3 p-3 bg-blue-50 rounded-lg">
+              {isRanked ? (
+                <span className="font-bold text-blue-600 w-6">{index + 1}.</span>
+              ) : (
+                <CheckCircle className="h-5 w-5 text-blue-600" />
+              )}
+              <span className="font-semibold">{candidate.name}</span>
+              {candidate.department && <span className="text-gray-600">{candidate.department}</span>}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        selectedCandidate && (
+          <div className="flex items-center justify-center space-x-4 p-4 bg-blue-50 rounded-lg">
+            <Avatar className="h-16 w-16">
+              <AvatarImage src={selectedCandidate.image_url || "/placeholder.svg"} />
+              <AvatarFallback>{initials(selectedCandidate.name)}</AvatarFallback>
+            </Avatar>
+            <div className="text-left">
+              <p className="font-semibold text-lg">{selectedCandidate.name}</p>
+              {selectedCandidate.department && <p className="text-gray-600">{selectedCandidate.department}</p>}
+            </div>
+          </div>
+        )
+      )}
+      {isYesNo && choice.approve !== null && (
+        <p className="mt-4 flex items-center justify-center gap-2 font-semibold">
+          {choice.approve ? <ThumbsUp className="h-5 w-5 text-green-600" /> : <ThumbsDown className="h-5 w-5 text-red-600" />}
+          Your vote: {choice.approve ? "Yes, approve" : "No, reject"}
+        </p>
+      )}
+    </>
+  )
+}
@@ -21,42 +21,31 @@ interface Post {
 
 interface PostsListProps {
   userId: string
+  electionId: string
+  votingOpen: boolean
 }
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export function PostsList({ userId }: PostsListProps) {
+export function PostsList({ userId, electionId, votingOpen }: PostsListProps) {
   const [posts, setPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(true)
   const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
   useEffect(() => {
     const fetchPostsAndUserVotes = async () => {
-      if (!userId) {
+      if (!userId || !electionId) {
         setLoading(false)
         return
       }
       
       try {
-        const { data: elections, error: electionsError } = await supabase
-          .from("elections")
-          .select("id")
-          .eq("is_active", true)
-          .limit(1)
-
-        if (electionsError) throw electionsError
-        if (!elections || elections.length === 0) {
-          setLoading(false)
-          return
-        }
-        const electionId = elections[0].id
-
         // Fetch all necessary data in parallel for performance
         const [postsResponse, candidatesResponse, votesResponse] = await Promise.all([
-          supabase.from("posts").select("*").eq("election_id", electionId).order("title"),
-          supabase.from("candidates").select("id, name, post_id"),
-          supabase.from("votes").select("post_id").eq("user_id", userId) // The critical database check
+          supabase.from("posts").select("*").eq("election_id", electionId).order("position").order("title"),
+          supabase.from("candidates").select("id, name, post_id, posts!inner (election_id)").eq("posts.election_id", electionId),
+          supabase.from("ballot_participation").select("post_id").eq("user_id", userId) // The critical database check
         ]);
 
         if (postsResponse.error) throw postsResponse.error;
@@ -90,7 +79,7 @@ export function PostsList({ userId }: PostsListProps) {
     }
 
     fetchPostsAndUserVotes()
-  }, [userId, supabase])
+  }, [userId, electionId, supabase])
 
   if (loading) {
     return (
@@ -104,43 +93,66 @@ export function PostsList({ userId }: PostsListProps) {
 
   if (posts.length === 0) {
     return (
-      <Card><CardContent className="p-12 text-center"><Clock className="h-8 w-8 mx-auto mb-4 text-gray-400" /><h3 className="font-semibold">No Active Elections</h3><p className="text-sm text-gray-600">Please check back later.</p></CardContent></Card>
+      <Card><CardContent className="p-12 text-center"><Clock className="h-8 w-8 mx-auto mb-4 text-gray-400" /><h3 className="font-semibold">No Positions Yet</h3><p className="text-sm text-gray-600">Positions for this election have not been published. Please check back later.</p></CardContent></Card>
     )
   }
 
+  // Positions still to vote on that someone is standing for, which the ballot wizard steps through
+  const unvotedCount = posts.filter((post) => !post.user_voted && post.candidates.length > 0).length
+
   return (
-    <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-      {posts.map((post) => (
-        <Card key={post.id} className={`transition-all duration-300 ${post.user_voted ? "ring-2 ring-emerald-500 bg-emerald-50" : "hover:shadow-md"}`}>
-          <CardHeader className="pb-4">
-            <div className="flex justify-between items-start">
-              <div className="pr-2">
-                <CardTitle className="text-lg font-bold">{post.title}</CardTitle>
-                <CardDescription className="mt-1">{post.description}</CardDescription>
-              </div>
-              {post.user_voted && (
-                <Badge variant="secondary" className="bg-green-100 text-green-800 flex-shrink-0"><CheckCircle className="h-3 w-3 mr-1" />Voted</Badge>
-              )}
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="flex justify-between items-center mb-4 text-sm text-gray-600">
-              <span className="flex items-center"><Users className="h-4 w-4 mr-1" />{post.candidates.length} candidates</span>
-              <span className="flex items-center font-medium text-emerald-600"><Vote className="h-4 w-4 mr-1" />Active</span>
+    <div className="space-y-6">
+      {votingOpen && unvotedCount > 1 && (
+        <Card className="border-emerald-200 bg-emerald-50">
+          <CardContent className="p-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-900">Vote on all {unvotedCount} remaining positions at once</h3>
+              <p className="text-sm text-gray-600">Step through each position, review every choice, then submit one ballot.</p>
             </div>
-            {/* Conditional rendering based on the user_voted flag */}
-            {post.user_voted ? (
-              <Link href={`/results/${post.id}`} passHref>
-                <Button variant="outline" className="w-full">View Results <ArrowRight className="ml-2 h-4 w-4" /></Button>
-              </Link>
-            ) : (
-              <Link href={`/vote/${post.id}`} passHref>
-                <Button className="w-full bg-green-gradient text-white">Vote Now <ArrowRight className="ml-2 h-4 w-4" /></Button>
-              </Link>
-            )}
+            <Link href={`/elections/${electionId}/ballot`} passHref>
+              <Button className="bg-green-gradient text-white">Start Ballot <ArrowRight className="ml-2 h-4 w-4" /></Button>
+            </Link>
           </CardContent>
         </Card>
-      ))}
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {posts.map((post) => (
+          <Card key={post.id} className={`transition-all duration-300 ${post.user_voted ? "ring-2 ring-emerald-500 bg-emerald-50" : "hover:shadow-md"}`}>
+            <CardHeader className="pb-4">
+              <div className="flex justify-between items-start">
+                <div className="pr-2">
+                  <CardTitle className="text-lg font-bold">{post.title}</CardTitle>
+                  <CardDescription className="mt-1">{post.description}</CardDescription>
+                </div>
+                {post.user_voted && (
+                  <Badge variant="secondary" className="bg-green-100 text-green-800 flex-shrink-0"><CheckCircle className="h-3 w-3 mr-1" />Voted</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex justify-between items-center mb-4 text-sm text-gray-600">
+                <span className="flex items-center"><Users className="h-4 w-4 mr-1" />{post.candidates.length} candidates</span>
+                {votingOpen ? (
+                  <span className="flex items-center font-medium text-emerald-600"><Vote className="h-4 w-4 mr-1" />Open</span>
+                ) : (
+                  <span className="flex items-center font-medium text-gray-500"><Clock className="h-4 w-4 mr-1" />Not Open</span>
+                )}
+              </div>
+              {/* Conditional rendering based on the user_voted flag */}
+              {post.user_voted || !votingOpen ? (
+                <Link href={`/results/${post.id}`} passHref>
+                  <Button variant="outline" className="w-full">View Results <ArrowRight className="ml-2 h-4 w-4" /></Button>
+                </Link>
+              ) : (
+                <Link href={`/vote/${post.id}`} passHref>
+                  <Button className="w-full bg-green-gradient text-white">Vote Now <ArrowRight className="ml-2 h-4 w-4" /></Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, GripVertical, X } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+
+import type { Candidate } from "@/app/vote/[postId]/page"
+
+interface RankedBallotProps {
+  candidates: Candidate[]
+  // Candidate ids, most preferred first
+  ranking: string[]
+  onChange: (ranking: string[]) => void
+}
+
+const initials = (name: string) =>
+  name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+
+// Picking candidates in turn numbers them 1, 2, 3…; the ranking can then be reordered by
+// dragging or with the arrow buttons. Voters may stop after as many preferences as they like.
+export function RankedBallot({ candidates, ranking, onChange }: RankedBallotProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const toggle = (candidateId: string) =>
+    onChange(ranking.includes(candidateId) ? ranking.filter((id) => id !== candidateId) : [...ranking, candidateId])
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= ranking.length || from === to) return
+    const next = [...ranking]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    onChange(next)
+  }
+
+  const ranked = ranking
+    .map((id) => candidates.find((candidate) => candidate.id === id))
+    .filter((candidate): candidate is Candidate => !!candidate)
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <div>
+        <h2 className="text-xl font-semibold mb-1">Rank the Candidates</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Select candidates in order of preference. If your first choice is eliminated, your vote moves to your next
+          choice.
+        </p>
+        <div className="space-y-3">
+          {candidates.map((candidate) => {
+            const rank = ranking.indexOf(candidate.id) + 1
+            return (
+              <Card
+                key={candidate.id}
+                className={`cursor-pointer transition-all hover:shadow-md ${
+                  rank ? "ring-2 ring-blue-500 bg-blue-50" : "hover:border-gray-300"
+                }`}
+                onClick={() => toggle(candidate.id)}
+              >
+                <CardContent className="p-4 flex items-center space-x-4">
+                  <Avatar className="h-12 w-12">
+                    <AvatarImage src={candidate.image_url || "/placeholder.svg"} />
+                    <AvatarFallback>{initials(candidate.name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1">
+                    <h3 className="font-semibold">{candidate.name}</h3>
+                    {candidate.department && <p className="text-sm text-gray-600">{candidate.department}</p>}
+                  </div>
+                  {rank > 0 && <Badge className="text-base h-8 w-8 justify-center rounded-full">{rank}</Badge>}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold mb-1">Your Ranking</h2>
+        <p className="text-sm text-gray-600 mb-4">Drag to reorder, or use the arrows.</p>
+        {ranked.length === 0 ? (
+          <p className="text-center text-muted-foreground border border-dashed rounded-lg py-8">
+            No candidates ranked yet
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {ranked.map((candidate, index) => (
+              <li
+                key={candidate.id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) move(dragIndex, index)
+                  setDragIndex(null)
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-3 p-3 border rounded-lg bg-white ${
+                  dragIndex === index ? "opacity-50" : ""
+                }`}
+              >
+                <GripVertical className="h-4 w-4 text-gray-400 cursor-grab" />
+                <span className="font-bold text-blue-600 w-6">{index + 1}.</span>
+                <span className="flex-1 font-medium">{candidate.name}</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${candidate.name} up`}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === ranked.length - 1}
+                  aria-label={`Move ${candidate.name} down`}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => toggle(candidate.id)}
+                  aria-label={`Remove ${candidate.name} from your ranking`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { CheckCircle, ThumbsDown, ThumbsUp } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+
+import type { Candidate } from "@/app/vote/[postId]/page"
+
+interface ReferendumBallotProps {
+  candidate: Candidate
+  // Share of Yes votes the candidate must exceed to be elected
+  threshold: number
+  // Yes (true), No (false), or null before the voter has chosen
+  approve: boolean | null
+  onChange: (approve: boolean) => void
+}
+
+// A single candidate standing for the post, confirmed or rejected rather than chosen
+export function ReferendumBallot({ candidate, threshold, approve, onChange }: ReferendumBallotProps) {
+  return (
+    <div className="mb-8 max-w-xl mx-auto">
+      <h2 className="text-xl font-semibold mb-1">Approve This Candidate?</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {candidate.name} is standing unopposed and is elected if more than {threshold}% of voters say Yes.
+      </p>
+
+      <Card className="mb-6">
+        <CardContent className="p-6">
+          <div className="flex items-start space-x-4">
+            <Avatar className="h-16 w-16">
+              <AvatarImage src={candidate.image_url || "/placeholder.svg"} />
+              <AvatarFallback>
+                {candidate.name
+                  .split(" ")
+                  .map((n) => n[0])
+                  .join("")}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <h3 className="font-semibold text-lg mb-2">{candidate.name}</h3>
+              {candidate.department && <p className="text-gray-600 mb-2">{candidate.department}</p>}
+              {candidate.bio && <p className="text-sm text-gray-700 line-clamp-3">{candidate.bio}</p>}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Button
+          type="button"
+          size="lg"
+          variant={approve === true ? "default" : "outline"}
+          className={approve === true ? "bg-green-600 hover:bg-green-700" : ""}
+          onClick={() => onChange(true)}
+        >
+          {approve === true ? <CheckCircle className="mr-2 h-5 w-5" /> : <ThumbsUp className="mr-2 h-5 w-5" />}
+          Yes, approve
+        </Button>
+        <Button
+          type="button"
+          size="lg"
+          variant={approve === false ? "default" : "outline"}
+          className={approve === false ? "bg-red-600 hover:bg-red-700" : ""}
+          onClick={() => onChange(false)}
+        >
+          {approve === false ? <CheckCircle className="mr-2 h-5 w-5" /> : <ThumbsDown className="mr-2 h-5 w-5" />}
+          No, reject
+        </Button>
+      </div>
+    </div>
+  )
+}
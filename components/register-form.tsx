@@ -12,6 +12,8 @@ import { Progress } from "@/components/ui/progress"
 import { Loader2, CheckCircle, User, Mail, Lock, Eye, EyeOff, Info, AlertTriangle } from "lucide-react"
 import Link from "next/link"
 import { authService } from "@/lib/auth" // Import authService
+import { getPasswordStrength, validatePassword } from "@/lib/password"
+import { EmailVerificationForm } from "@/components/email-verification-form"
 
 export function RegisterForm() {
   const [formData, setFormData] = useState({
@@ -26,46 +28,11 @@ export function RegisterForm() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
   const [success, setSuccess] = useState(false)
+  const [codeSent, setCodeSent] = useState(false)
   const router = useRouter()
 
-  const getPasswordStrength = (password: string) => {
-    let strength = 0
-    const checks = {
-      length: password.length >= 8,
-      uppercase: /[A-Z]/.test(password),
-      lowercase: /[a-z]/.test(password),
-      numbers: /\d/.test(password),
-      special: /[!@#$%^&*(),.?":{}|<>]/.test(password),
-    }
-
-    Object.values(checks).forEach((check) => check && strength++)
-    return { strength: (strength / 5) * 100, checks }
-  }
-
   const passwordStrength = getPasswordStrength(formData.password)
 
-  const validatePassword = (password: string) => {
-    const minLength = 8
-    const hasUpperCase = /[A-Z]/.test(password)
-    const hasLowerCase = /[a-z]/.test(password)
-    const hasNumbers = /\d/.test(password)
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password)
-
-    if (password.length < minLength) {
-      return "Password must be at least 8 characters long"
-    }
-    if (!hasUpperCase || !hasLowerCase) {
-      return "Password must contain both uppercase and lowercase letters"
-    }
-    if (!hasNumbers) {
-      return "Password must contain at least one number"
-    }
-    if (!hasSpecialChar) {
-      return "Password must contain at least one special character"
-    }
-    return null
-  }
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -87,7 +54,7 @@ export function RegisterForm() {
     }
 
     try {
-      const { user, error: authError } = await authService.signUp({
+      const { error: authError, codeSent } = await authService.signUp({
         matric_no: formData.matricNo,
         name: formData.name,
         email: formData.email,
@@ -99,11 +66,8 @@ export function RegisterForm() {
         return
       }
 
-      if (user) {
-        setSuccess(true)
-      } else {
-        setError("Registration failed. Please try again.")
-      }
+      setCodeSent(codeSent)
+      setSuccess(true)
     } catch (err) {
       console.error("Registration error:", err)
       setError("An unexpected error occurred during registration.")
@@ -119,18 +83,17 @@ export function RegisterForm() {
           <div className="w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <CheckCircle className="h-8 w-8 text-emerald-600" />
           </div>
-          <CardTitle className="text-2xl font-bold text-gray-800">Registration Successful!</CardTitle>
-          <CardDescription className="text-gray-600">Your account has been created successfully</CardDescription>
+          <CardTitle className="text-2xl font-bold text-gray-800">Check Your Email</CardTitle>
+          <CardDescription className="text-gray-600">
+            Your account has been created. Verify your email to finish registering.
+          </CardDescription>
         </CardHeader>
-        <CardContent className="px-8">
-          <p className="text-gray-600 mb-6 text-center">
-            You can now sign in with your credentials and start participating in elections.
-          </p>
-          <Link href="/">
-            <Button className="w-full h-12 bg-green-gradient hover:shadow-lg hover:shadow-emerald-500/25 text-white font-semibold rounded-xl transition-all duration-300 transform hover:scale-[1.02]">
-              Return to Login
-            </Button>
-          </Link>
+        <CardContent className="px-8 pb-8">
+          <EmailVerificationForm
+            email={formData.email.trim().toLowerCase()}
+            codeSent={codeSent}
+            onVerified={() => router.push("/dashboard")}
+          />
         </CardContent>
       </Card>
     )
@@ -199,7 +162,7 @@ export function RegisterForm() {
 
           <div className="space-y-2">
             <Label htmlFor="email" className="text-gray-700 font-medium">
-              Email Address
+              University Email
             </Label>
             <div className="relative">
               <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
@@ -210,7 +173,7 @@ export function RegisterForm() {
                 onChange={(e) => setFormData((prev) => ({ ...prev, email: e.target.value }))}
                 required
                 disabled={loading}
-                placeholder="Enter your email"
+                placeholder="The email the university has on record"
                 className="pl-10 h-12 border-gray-200 focus:border-emerald-500 focus:ring-emerald-500 rounded-xl transition-all duration-200"
               />
             </div>
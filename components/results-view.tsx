@@ -10,8 +10,19 @@ import { supabaseOperations } from "@/lib/supabase"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/hooks/use-toast"
 import Image from "next/image"
-import { XCircle } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Ban, CheckCircle, Clock, ThumbsDown, ThumbsUp, Trophy, XCircle } from "lucide-react"
 import { useRouter } from "next/navigation"
+import {
+  areResultsVisible,
+  getElectionStatus,
+  getResultsReleaseTime,
+  type Election,
+  type ReferendumResult,
+  type VotingMethod,
+} from "@/lib/elections"
+import { describeRunoff, type RunoffResult } from "@/lib/ranked-choice"
 
 interface CandidateResult {
   id: string
@@ -20,6 +31,8 @@ interface CandidateResult {
   image_url?: string
   vote_count: number
   percentage: number
+  // Within the post's seats; see getElectedCandidateIds()
+  elected: boolean
 }
 
 interface Post {
@@ -27,6 +40,10 @@ interface Post {
   title: string
   description: string
   election_id: string
+  voting_method: VotingMethod
+  seats: number
+  allow_abstain: boolean
+  elections: Election | null
 }
 
 interface ResultsViewProps {
@@ -35,7 +52,13 @@ interface ResultsViewProps {
 
 export function ResultsView({ postId }: ResultsViewProps) {
   const [post, setPost] = useState<Post | null>(null)
-  const [results, setResults] = useState<{ candidates: CandidateResult[]; total_votes: number } | null>(null)
+  const [results, setResults] = useState<{
+    candidates: CandidateResult[]
+    total_votes: number
+    abstentions: number
+    runoff?: RunoffResult
+    referendum?: ReferendumResult
+  } | null>(null)
   const [loading, setLoading] = useState(true)
   const { toast } = useToast()
   const router = useRouter()
@@ -45,13 +68,14 @@ export function ResultsView({ postId }: ResultsViewProps) {
       setLoading(true)
       try {
         // Fetch the specific post details
-        const allPosts = await supabaseOperations.getPosts("") // Fetch all posts to find the specific one
-        const currentPost = allPosts.find((p: Post) => p.id === postId)
+        const currentPost = await supabaseOperations.getPost(postId)
         setPost(currentPost || null)
 
-        // Fetch results for the specific post
-        const data = await supabaseOperations.getPostResults(postId)
-        setResults(data)
+        // Fetch results for the specific post once its election has opened
+        if (currentPost?.elections && areResultsVisible(currentPost.elections)) {
+          const electionResults = await supabaseOperations.getElectionResults(currentPost.election_id)
+          setResults(electionResults[postId] || { candidates: [], total_votes: 0, abstentions: 0 })
+        }
       } catch (error) {
         console.error("Error fetching results:", error)
         toast({
@@ -102,14 +126,50 @@ export function ResultsView({ postId }: ResultsViewProps) {
     )
   }
 
+  if (!post.elections || !areResultsVisible(post.elections)) {
+    const releaseTime = post.elections ? getResultsReleaseTime(post.elections) : null
+
+    return (
+      <Card className="w-full max-w-md mx-auto text-center p-6">
+        <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <CardTitle className="text-2xl font-bold mb-2">Results Not Available</CardTitle>
+        <CardDescription className="text-gray-600 mb-4">
+          {releaseTime
+            ? `Results for ${post.title} will be available at ${new Date(releaseTime).toLocaleString()}.`
+            : `Results for ${post.title} will be available once the election administrators publish them.`}
+        </CardDescription>
+        <Button onClick={() => router.push(`/elections/${post.election_id}`)}>Return to Election</Button>
+      </Card>
+    )
+  }
+
+  // Until voting closes, the candidates within the seats are only leading
+  const isFinal = ["closed", "certified"].includes(getElectionStatus(post.elections))
+  const electedLabel = isFinal ? "Elected" : "Leading"
+  const referendum = results?.referendum
+
   return (
     <Card className="w-full max-w-3xl mx-auto">
       <CardHeader className="text-center pb-4">
         <CardTitle className="text-3xl font-bold text-gray-800">{post.title} Results</CardTitle>
-        <CardDescription className="text-gray-600">Total Votes: {results?.total_votes || 0}</CardDescription>
+        <CardDescription className="text-gray-600">
+          Total Votes: {results?.total_votes || 0}
+          {referendum
+            ? ` · Yes/No referendum, needs more than ${referendum.threshold}% Yes`
+            : post.voting_method === "ranked" && " · Ranked choice, counted by instant-runoff"}
+          {post.seats > 1 && ` · ${post.seats} seats`}
+        </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6 px-8">
-        {results?.candidates && results.candidates.length > 0 ? (
+        {post.voting_method === "ranked" && !referendum && results && results.candidates.length > 0 && (
+          <>
+            <RunoffRounds candidates={results.candidates} runoff={results.runoff} electedLabel={electedLabel} />
+            <h3 className="text-lg font-semibold text-gray-800 pt-2">First Preferences</h3>
+          </>
+        )}
+        {referendum && results?.candidates[0] ? (
+          <ReferendumOutcome candidate={results.candidates[0]} referendum={referendum} isFinal={isFinal} />
+        ) : results?.candidates && results.candidates.length > 0 ? (
           results.candidates.map((candidate) => (
             <div key={candidate.id} className="flex items-center gap-4">
               {candidate.image_url && (
@@ -125,7 +185,10 @@ export function ResultsView({ postId }: ResultsViewProps) {
               )}
               <div className="flex-1">
                 <div className="flex justify-between items-center mb-1">
-                  <h3 className="text-lg font-semibold text-gray-800">{candidate.name}</h3>
+                  <h3 className="text-lg font-semibold text-gray-800">
+                    {candidate.name}
+                    {candidate.elected && <Badge className="ml-2 align-middle">{electedLabel}</Badge>}
+                  </h3>
                   <span className="text-lg font-bold text-emerald-600">{candidate.percentage.toFixed(2)}%</span>
                 </div>
                 <Progress value={candidate.percentage} className="h-3 bg-gray-200" />
@@ -138,10 +201,165 @@ export function ResultsView({ postId }: ResultsViewProps) {
         ) : (
           <p className="text-center text-muted-foreground">No candidates or votes recorded for this post yet.</p>
         )}
+        {results && (post.allow_abstain || results.abstentions > 0) && (
+          <div className="flex items-center gap-4 border-t pt-4">
+            <Ban className="h-6 w-6 text-gray-400 shrink-0" />
+            <div className="flex-1">
+              <div className="flex justify-between items-center mb-1">
+                <h3 className="text-lg font-semibold text-gray-600">Abstained</h3>
+                <span className="text-lg font-bold text-gray-500">
+                  {(results.total_votes > 0 ? (results.abstentions / results.total_votes) * 100 : 0).toFixed(2)}%
+                </span>
+              </div>
+              <p className="text-sm text-gray-500">
+                {results.abstentions} ballots for no candidate; counted in turnout only
+              </p>
+            </div>
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-center px-8 pb-8">
-        <Button onClick={() => router.push("/dashboard")}>Return to Dashboard</Button>
+        <Button onClick={() => router.push(`/elections/${post.election_id}`)}>Return to Election</Button>
       </CardFooter>
     </Card>
   )
 }
+
+interface ReferendumOutcomeProps {
+  candidate: CandidateResult
+  referendum: ReferendumResult
+  isFinal: boolean
+}
+
+// Yes and No as shares of the votes cast on them, against the approval threshold
+function ReferendumOutcome({ candidate, referendum, isFinal }: ReferendumOutcomeProps) {
+  const { yes, no, threshold, approved } = referendum
+  const total = yes + no
+  const yesShare = total > 0 ? (yes / total) * 100 : 0
+  const noShare = total > 0 ? (no / total) * 100 : 0
+
+  const outcome =
+    total === 0
+      ? "No votes have been cast yet."
+      : isFinal
+        ? approved
+          ? `${candidate.name} is approved: ${yesShare.toFixed(2)}% said Yes, above the ${threshold}% threshold.`
+          : `${candidate.name} is rejected: ${yesShare.toFixed(2)}% said Yes, which does not exceed the ${threshold}% threshold.`
+        : `${yesShare.toFixed(2)}% Yes so far; ${candidate.name} needs more than ${threshold}% to be approved.`
+
+  return (
+    <div className="space-y-6">
+      <div className={`flex items-center gap-2 p-4 rounded-lg ${approved ? "bg-emerald-50" : "bg-red-50"}`}>
+        {approved ? (
+          <CheckCircle className="h-5 w-5 text-emerald-600 shrink-0" />
+        ) : (
+          <XCircle className="h-5 w-5 text-red-600 shrink-0" />
+        )}
+        <p className="font-semibold text-gray-800">{outcome}</p>
+        <Badge variant={approved ? "default" : "destructive"} className="ml-auto">
+          {approved ? "Threshold met" : "Threshold not met"}
+        </Badge>
+      </div>
+
+      {[
+        { label: "Yes", icon: ThumbsUp, count: yes, share: yesShare, color: "text-emerald-600" },
+        { label: "No", icon: ThumbsDown, count: no, share: noShare, color: "text-red-600" },
+      ].map(({ label, icon: Icon, count, share, color }) => (
+        <div key={label}>
+          <div className="flex justify-between items-center mb-1">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+              <Icon className={`h-5 w-5 ${color}`} />
+              {label}
+            </h3>
+            <span className={`text-lg font-bold ${color}`}>{share.toFixed(2)}%</span>
+          </div>
+          <Progress value={share} className="h-3 bg-gray-200" />
+          <p className="text-sm text-gray-500 mt-1">{count} votes</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface RunoffRoundsProps {
+  candidates: CandidateResult[]
+  runoff?: RunoffResult
+  electedLabel: string
+}
+
+// One column per instant-runoff round; a candidate's cells stop after the round they were eliminated in
+function RunoffRounds({ candidates, runoff, electedLabel }: RunoffRoundsProps) {
+  if (!runoff || runoff.rounds.length === 0) {
+    return <p className="text-center text-muted-foreground">No ballots have been counted for this post yet.</p>
+  }
+
+  const names = Object.fromEntries(candidates.map((candidate) => [candidate.id, candidate.name]))
+  const { rounds, winner } = runoff
+  const finalRound = rounds[rounds.length - 1]
+  const eliminatedIn = (candidateId: string) => rounds.find((round) => round.eliminated.includes(candidateId))?.round
+
+  // Winner first, then by how long each candidate stayed in the race
+  const order = [...candidates].sort(
+    (a, b) =>
+      Number(b.id === winner) - Number(a.id === winner) ||
+      (eliminatedIn(b.id) ?? Infinity) - (eliminatedIn(a.id) ?? Infinity) ||
+      (finalRound.counts[b.id] ?? 0) - (finalRound.counts[a.id] ?? 0),
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 p-4 bg-emerald-50 rounded-lg">
+        <Trophy className="h-5 w-5 text-emerald-600" />
+        <p className="font-semibold text-gray-800">{describeRunoff(runoff, (id) => names[id])}</p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Candidate</TableHead>
+              {rounds.map((round) => (
+                <TableHead key={round.round} className="text-right">
+                  Round {round.round}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {order.map((candidate) => (
+              <TableRow key={candidate.id}>
+                <TableCell className="font-medium">
+                  {candidate.name}
+                  {candidate.id === winner && <Badge className="ml-2">{electedLabel}</Badge>}
+                </TableCell>
+                {rounds.map((round) => (
+                  <TableCell key={round.round} className="text-right">
+                    {candidate.id in round.counts ? (
+                      <span className={round.eliminated.includes(candidate.id) ? "text-red-600 line-through" : ""}>
+                        {round.counts[candidate.id]}
+                      </span>
+                    ) : (
+                      <span className="text-gray-300">—</span>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell className="text-gray-500">Exhausted ballots</TableCell>
+              {rounds.map((round) => (
+                <TableCell key={round.round} className="text-right text-gray-500">
+                  {round.exhausted}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-sm text-gray-500">
+        Struck-through counts were the lowest in their round; those candidates were eliminated and their ballots
+        passed to each voter's next choice.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import { useAuth } from "@/components/auth-provider"
+import { ToastAction } from "@/components/ui/toast"
+import { describeQueuedEntry, getQueuedEntries, sendQueued } from "@/lib/vote-queue"
+import { isRetryableVoteError, isSignedOutVoteError } from "@/lib/votes"
+import { useToast } from "@/hooks/use-toast"
+
+// Sends the signed-in voter's queued votes and ballots on load, on signing in and whenever the
+// connection comes back, whichever page they are on. Their receipts are saved on this device and listed on /verify.
+export function VoteQueueSync() {
+  const userId = useAuth().user?.id
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!userId || typeof indexedDB === "undefined") return
+
+    const flush = async () => {
+      try {
+        for (const entry of await getQueuedEntries(userId)) {
+          sendQueued(entry)
+            .then((results) =>
+              toast({
+                title: entry.kind === "vote" ? "Vote Recorded" : "Ballot Recorded",
+                description: `Your queued vote for ${describeQueuedEntry(entry)} has been sent and confirmed. Your receipt is saved on this device.`,
+                action: (
+                  <ToastAction altText="View receipt" asChild>
+                    <Link href={results.length === 1 ? `/verify?receipt=${results[0].receipt}` : "/verify"}>
+                      {results.length === 1 ? "View Receipt" : "View Receipts"}
+                    </Link>
+                  </ToastAction>
+                ),
+              }),
+            )
+            .catch((error) => {
+              // Still offline or the server is struggling; it stays queued for next time
+              if (isRetryableVoteError(error)) return
+              if (isSignedOutVoteError(error)) {
+                toast({
+                  title: "Sign In to Send",
+                  description: `Your vote for ${describeQueuedEntry(entry)} is saved on this device and will be sent once you sign in again.`,
+                })
+                return
+              }
+              toast({
+                title: "Vote Not Recorded",
+                description: `${describeQueuedEntry(entry)}: ${error.message}`,
+                variant: "destructive",
+              })
+            })
+        }
+      } catch (error) {
+        console.error("Error reading the vote queue:", error)
+      }
+    }
+
+    flush()
+    window.addEventListener("online", flush)
+    return () => window.removeEventListener("online", flush)
+  }, [userId, toast])
+
+  return null
+}
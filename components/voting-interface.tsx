@@ -1,20 +1,33 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
-import { ArrowLeft, CheckCircle, Loader2 } from "lucide-react"
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import { ArrowLeft, CheckCircle, CloudOff, Loader2, LogIn } from "lucide-react"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 
-import { supabaseOperations } from "@/lib/supabase"
+import { useAuth } from "@/components/auth-provider"
+import { BallotReceipt } from "@/components/ballot-receipt"
+import { ChoiceSummary, EMPTY_CHOICE, PostBallot, ballotVote } from "@/components/post-ballot"
+import {
+  VOTE_DELIVERY_LABELS,
+  enqueueVote,
+  getQueuedEntries,
+  sendQueuedVote,
+  type QueuedVote,
+  type VoteDeliveryStatus,
+} from "@/lib/vote-queue"
+import { ApiError } from "@/lib/api"
+import { VOTE_ERROR_MESSAGES, isRetryableVoteError, isSignedOutVoteError, type CastVoteResult } from "@/lib/votes"
 import type { User } from "@/lib/auth"
-import type { PostWithRelations, Candidate } from "@/app/vote/[postId]/page" // Import types from the page
+import type { PostWithRelations } from "@/app/vote/[postId]/page" // Import types from the page
+
+// How often a vote waiting on this page is retried while the browser reports being online
+const RETRY_INTERVAL = 30000
 
 interface VotingInterfaceProps {
   post: PostWithRelations
@@ -22,73 +35,88 @@ interface VotingInterfaceProps {
 }
 
 export function VotingInterface({ post, user }: VotingInterfaceProps) {
-  const [selectedCandidateId, setSelectedCandidateId] = useState<string | null>(null)
-  const [isLoading, setIsLoading] = useState(false)
+  const [choice, setChoice] = useState(EMPTY_CHOICE)
   const [error, setError] = useState("")
   const [showConfirmation, setShowConfirmation] = useState(false)
   const [voteSuccessful, setVoteSuccessful] = useState(false)
+  const [castVote, setCastVote] = useState<CastVoteResult | null>(null)
+  // The vote once submitted, kept on this device until the server has it
+  const [queued, setQueued] = useState<QueuedVote | null>(null)
+  const [delivery, setDelivery] = useState<VoteDeliveryStatus | null>(null)
   const router = useRouter()
+  const { signOut } = useAuth()
+  const electionHref = post.elections ? `/elections/${post.elections.id}` : "/dashboard"
+  const vote = ballotVote(post, choice)
+  const isLoading = delivery === "sent"
 
-  const handleVoteSubmit = async () => {
-    if (!selectedCandidateId) return
-
-    setIsLoading(true)
+  const deliver = async (entry: QueuedVote) => {
+    setDelivery("sent")
     setError("")
 
     try {
-      // **SOLUTION PART 1: Proactive "Just-in-Time" Check**
-      // Perform one final check right before submitting to prevent race conditions.
-      const supabase = createClientComponentClient()
-      const { data: voteCheck } = await supabase
-        .from("votes")
-        .select("id")
-        .eq("user_id", user.id)
-        .eq("post_id", post.id)
-        .maybeSingle()
-
-      if (voteCheck) {
-        // If a vote exists now, it means it was cast in another tab or via a double-click.
-        // Show a friendly message and update the UI to the success state.
-        setError("It looks like you've already voted for this position.")
-        setVoteSuccessful(true) // Treat this as a success, as the vote is in.
-        return;
-      }
-
-      // If the check passes, proceed to submit the vote.
-      await supabaseOperations.submitVote({
-        post_id: post.id,
-        candidate_id: selectedCandidateId,
-        user_id: user.id,
-      })
-
-      // Update local storage to immediately reflect the vote on the dashboard
-      const userVotes = JSON.parse(localStorage.getItem("userVotes") || "{}")
-      userVotes[post.id] = { candidate_id: selectedCandidateId }
-      localStorage.setItem("userVotes", JSON.stringify(userVotes))
-
-      // Set state to show the final success message
+      // The server resolves the voter from the session and re-checks the election window,
+      // candidate and eligibility before recording the vote.
+      setCastVote(await sendQueuedVote(entry))
+      setDelivery("confirmed")
       setVoteSuccessful(true)
-
-    } catch (err: any) {
+    } catch (err) {
       console.error("Vote submission error:", err)
-      // **SOLUTION PART 2: Graceful Error Handling**
-      // Specifically catch the "duplicate key" error from the database.
-      if (err.code === '23505') { // This is the PostgreSQL code for unique_violation
-          setError("Your vote has already been recorded for this position.")
-          setVoteSuccessful(true); // Since the vote exists, we can consider this a "success"
+      if (!(err instanceof ApiError) || isRetryableVoteError(err)) {
+        // Still queued; the choice can't change now, as the server may already have it
+        setDelivery("pending")
+        setShowConfirmation(false)
+        return
+      }
+      if (isSignedOutVoteError(err)) {
+        setDelivery("signed_out")
+        setShowConfirmation(false)
+        return
+      }
+
+      setQueued(null)
+      setDelivery(null)
+      if (err.code === "ALREADY_VOTED") {
+        // The vote was cast in another tab or on another device; the vote is in.
+        setError(err.message)
+        setVoteSuccessful(true)
       } else {
-          setError(err.message || "An unexpected error occurred during vote submission.")
+        setError(err.message || VOTE_ERROR_MESSAGES.INTERNAL_ERROR)
       }
-    } finally {
-        // We only set loading to false if an error occurred that wasn't a duplicate vote.
-        // If it was a duplicate or successful, the component will unmount or show the success screen.
-        if (!voteSuccessful) {
-            setIsLoading(false)
-        }
     }
   }
 
-  const selectedCandidateData = post.candidates.find((c) => c.id === selectedCandidateId)
+  const handleVoteSubmit = async () => {
+    if (!vote) return
+
+    const entry = queued ?? (await enqueueVote(user.id, post.title, vote))
+    setQueued(entry)
+    await deliver(entry)
+  }
+
+  // A vote for this post still queued from an earlier visit carries on where it left off
+  useEffect(() => {
+    getQueuedEntries(user.id)
+      .then((entries) => {
+        const entry = entries.find((e): e is QueuedVote => e.kind === "vote" && e.input.post_id === post.id)
+        if (!entry) return
+        setQueued(entry)
+        setDelivery("pending")
+      })
+      .catch((err) => console.error("Error reading the vote queue:", err))
+  }, [user.id, post.id])
+
+  // Retry a pending vote when the connection returns, and now and then in case it never dropped
+  useEffect(() => {
+    if (delivery !== "pending" || !queued) return
+
+    const retry = () => deliver(queued)
+    const timer = setInterval(() => navigator.onLine && retry(), RETRY_INTERVAL)
+    window.addEventListener("online", retry)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener("online", retry)
+    }
+  }, [delivery, queued])
 
   // Final success screen after voting
   if (voteSuccessful) {
@@ -97,19 +125,94 @@ export function VotingInterface({ post, user }: VotingInterfaceProps) {
               <Card className="w-full max-w-md text-center p-6">
                   <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
                   <CardTitle className="text-2xl font-bold mb-2">Vote Recorded!</CardTitle>
+                  {delivery === "confirmed" && (
+                      <Badge variant="secondary" className="mb-4 bg-green-100 text-green-800">
+                          {VOTE_DELIVERY_LABELS.confirmed}
+                      </Badge>
+                  )}
                   <CardDescription className="text-gray-600 mb-6">
                       Your vote for the "{post.title}" position has been successfully recorded.
                   </CardDescription>
-                  <Button onClick={() => router.push('/dashboard')}>
-                      Return to Dashboard
+                  {castVote && (
+                      <div className="mb-6">
+                          <BallotReceipt
+                              receipt={castVote.receipt}
+                              postTitle={post.title}
+                              electionTitle={post.elections?.title}
+                              votedAt={castVote.created_at}
+                          />
+                      </div>
+                  )}
+                  <Button onClick={() => router.push(electionHref)}>
+                      Return to Election
                   </Button>
               </Card>
           </div>
       )
   }
 
+  // The session has ended; the vote stays queued and VoteQueueSync sends it once the voter signs back in
+  if (queued && delivery === "signed_out") {
+    const signIn = async () => {
+      await signOut()
+      router.push("/")
+    }
+
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
+        <Card className="w-full max-w-md text-center p-6">
+          <LogIn className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+          <CardTitle className="text-2xl font-bold mb-2">Sign In to Send Your Vote</CardTitle>
+          <Badge variant="secondary" className="mb-4">
+            {VOTE_DELIVERY_LABELS.signed_out}
+          </Badge>
+          <CardDescription className="text-gray-600 mb-6">
+            Your session ended before your vote for "{queued.post_title}" could be sent. It is saved on this device and
+            will be sent as soon as you sign in again, and only counted once.
+          </CardDescription>
+          <Button onClick={signIn}>Sign In</Button>
+        </Card>
+      </div>
+    )
+  }
+
+  // Sending, or saved on this device until it can be sent
+  if (queued && (delivery === "pending" || (delivery === "sent" && !showConfirmation))) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
+        <Card className="w-full max-w-md text-center p-6">
+          {delivery === "sent" ? (
+            <Loader2 className="h-16 w-16 text-blue-500 mx-auto mb-4 animate-spin" />
+          ) : (
+            <CloudOff className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+          )}
+          <CardTitle className="text-2xl font-bold mb-2">
+            {delivery === "sent" ? "Sending Your Vote" : "Vote Waiting to Send"}
+          </CardTitle>
+          <Badge variant="secondary" className="mb-4">
+            {VOTE_DELIVERY_LABELS[delivery]}
+          </Badge>
+          <CardDescription className="text-gray-600 mb-6">
+            Your vote for "{queued.post_title}" is saved on this device and will be sent automatically when your
+            connection returns. It will only be counted once, however many times it is sent. Keep this page open to
+            get your receipt.
+          </CardDescription>
+          <div className="flex flex-col gap-2">
+            <Button onClick={() => deliver(queued)} disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Try Again Now
+            </Button>
+            <Button variant="outline" onClick={() => router.push(electionHref)}>
+              Return to Election
+            </Button>
+          </div>
+        </Card>
+      </div>
+    )
+  }
+
   // Confirmation screen
-  if (showConfirmation && selectedCandidateData) {
+  if (showConfirmation && vote) {
     return (
       <div className="min-h-screen bg-gray-50 py-8 flex items-center justify-center">
         <div className="max-w-2xl mx-auto px-4 w-full">
@@ -121,20 +224,7 @@ export function VotingInterface({ post, user }: VotingInterfaceProps) {
             <CardContent className="space-y-6">
               <div className="text-center">
                 <h3 className="text-lg font-semibold mb-2">Position: {post.title}</h3>
-                <div className="flex items-center justify-center space-x-4 p-4 bg-blue-50 rounded-lg">
-                  <Avatar className="h-16 w-16">
-                    <AvatarImage src={selectedCandidateData.image_url || "/placeholder.svg"} />
-                    <AvatarFallback>
-                      {selectedCandidateData.name.split(" ").map((n) => n[0]).join("")}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="text-left">
-                    <p className="font-semibold text-lg">{selectedCandidateData.name}</p>
-                    {selectedCandidateData.department && (
-                      <p className="text-gray-600">{selectedCandidateData.department}</p>
-                    )}
-                  </div>
-                </div>
+                <ChoiceSummary post={post} choice={choice} />
               </div>
 
               <Alert>
@@ -176,10 +266,10 @@ export function VotingInterface({ post, user }: VotingInterfaceProps) {
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4">
         <div className="mb-6">
-          <Link href="/dashboard">
+          <Link href={electionHref}>
             <Button variant="ghost" className="mb-4">
               <ArrowLeft className="mr-2 h-4 w-4" />
-              Back to Dashboard
+              Back to Election
             </Button>
           </Link>
 
@@ -194,42 +284,15 @@ export function VotingInterface({ post, user }: VotingInterfaceProps) {
           </div>
         </div>
 
-        <div className="mb-8">
-          <h2 className="text-xl font-semibold mb-4">Select Your Candidate</h2>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {post.candidates.map((candidate) => (
-              <Card
-                key={candidate.id}
-                className={`cursor-pointer transition-all hover:shadow-md ${
-                  selectedCandidateId === candidate.id ? "ring-2 ring-blue-500 bg-blue-50" : "hover:border-gray-300"
-                }`}
-                onClick={() => setSelectedCandidateId(candidate.id)}
-              >
-                <CardContent className="p-6">
-                  <div className="flex items-start space-x-4">
-                    <Avatar className="h-16 w-16">
-                      <AvatarImage src={candidate.image_url || "/placeholder.svg"} />
-                      <AvatarFallback>
-                        {candidate.name.split(" ").map((n) => n[0]).join("")}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between mb-2">
-                        <h3 className="font-semibold text-lg">{candidate.name}</h3>
-                        {selectedCandidateId === candidate.id && <CheckCircle className="h-5 w-5 text-blue-600" />}
-                      </div>
-                      {candidate.department && <p className="text-gray-600 mb-2">{candidate.department}</p>}
-                      {candidate.bio && <p className="text-sm text-gray-700 line-clamp-3">{candidate.bio}</p>}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </div>
+        <PostBallot post={post} choice={choice} onChange={setChoice} />
 
         <div className="text-center mt-8">
-          <Button onClick={() => setShowConfirmation(true)} disabled={!selectedCandidateId} size="lg" className="px-8">
+          <Button
+            onClick={() => setShowConfirmation(true)}
+            disabled={!vote}
+            size="lg"
+            className="px-8"
+          >
             Continue to Confirmation
           </Button>
         </div>
@@ -0,0 +1,186 @@
+"use client"
+
+import * as React from "react"
+import { createClient, supabaseOperations } from "@/lib/supabase"
+
+export type LiveConnectionStatus = "connecting" | "live" | "polling"
+
+// A voter taking part in a post. Ballots aren't streamed, so events don't say who was chosen
+interface VoteEvent {
+  post_id: string
+  created_at: string
+}
+
+interface LiveVoteCounts {
+  byPost: Record<string, number>
+  byCandidate: Record<string, number>
+  total: number
+}
+
+interface UseLiveVotesOptions {
+  windowMinutes?: number
+  pollInterval?: number
+}
+
+const emptyCounts: LiveVoteCounts = { byPost: {}, byCandidate: {}, total: 0 }
+
+function addVote(counts: LiveVoteCounts, vote: VoteEvent): LiveVoteCounts {
+  return {
+    byPost: { ...counts.byPost, [vote.post_id]: (counts.byPost[vote.post_id] || 0) + 1 },
+    byCandidate: counts.byCandidate,
+    total: counts.total + 1,
+  }
+}
+
+// Running vote counters for an election's posts. Loads a tally snapshot, then applies participation
+// inserts from Supabase Realtime to the per-post counts; if the subscription drops it re-polls the
+// snapshot until it reconnects. Per-candidate counts only come from the tally, so while live the
+// snapshot is still refreshed every pollInterval.
+export function useLiveVotes(
+  electionId: string | null,
+  postIds: string[],
+  { windowMinutes = 5, pollInterval = 30000 }: UseLiveVotesOptions = {},
+) {
+  const [counts, setCounts] = React.useState<LiveVoteCounts>(emptyCounts)
+  const [recentVotes, setRecentVotes] = React.useState<number[]>([])
+  const [status, setStatus] = React.useState<LiveConnectionStatus>("connecting")
+  const [loading, setLoading] = React.useState(true)
+  const [now, setNow] = React.useState(() => Date.now())
+  const postIdsKey = postIds.join(",")
+
+  React.useEffect(() => {
+    const ids = postIdsKey ? postIdsKey.split(",") : []
+    let cancelled = false
+    let snapshotAsOf: number | null = null
+    let pendingEvents: VoteEvent[] = []
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let tallyTimer: ReturnType<typeof setInterval> | null = null
+
+    const applyEvent = (vote: VoteEvent) => {
+      // Votes at or before the snapshot's newest vote are already counted
+      const createdAt = new Date(vote.created_at).getTime()
+      if (snapshotAsOf !== null && createdAt <= snapshotAsOf) return
+
+      setCounts((prev) => addVote(prev, vote))
+      setRecentVotes((prev) => [...prev, createdAt])
+    }
+
+    const loadSnapshot = async () => {
+      try {
+        const windowStart = new Date(Date.now() - windowMinutes * 60 * 1000).toISOString()
+        const [tally, recent] = await Promise.all([
+          supabaseOperations.getElectionResults(electionId!),
+          supabaseOperations.getRecentVotes(ids, windowStart),
+        ])
+        if (cancelled) return
+
+        const snapshot: LiveVoteCounts = { byPost: {}, byCandidate: {}, total: 0 }
+        let latestVote = 0
+        for (const [postId, result] of Object.entries(tally)) {
+          snapshot.byPost[postId] = result.total_votes
+          snapshot.total += result.total_votes
+          for (const candidate of result.candidates) {
+            snapshot.byCandidate[candidate.id] = candidate.vote_count
+          }
+          if (result.last_vote_at) latestVote = Math.max(latestVote, new Date(result.last_vote_at).getTime())
+        }
+
+        setCounts(snapshot)
+        setRecentVotes((recent || []).map((v) => new Date(v.created_at).getTime()))
+        snapshotAsOf = latestVote
+
+        // Replay anything that arrived over Realtime while the snapshot was loading
+        const buffered = pendingEvents
+        pendingEvents = []
+        buffered.forEach(applyEvent)
+      } catch (error) {
+        console.error("Error loading vote snapshot:", error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    const startPolling = () => {
+      if (pollTimer) return
+      setStatus("polling")
+      pollTimer = setInterval(loadSnapshot, pollInterval)
+    }
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer)
+      pollTimer = null
+    }
+
+    setLoading(true)
+    setStatus("connecting")
+    setCounts(emptyCounts)
+    setRecentVotes([])
+
+    if (!electionId || ids.length === 0) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`live-votes:${postIdsKey}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "ballot_participation",
+          filter: `post_id=in.(${ids.join(",")})`,
+        },
+        (payload) => {
+          const vote = payload.new as VoteEvent
+          if (snapshotAsOf === null) {
+            pendingEvents.push(vote)
+          } else {
+            applyEvent(vote)
+          }
+        },
+      )
+      .subscribe((subscribeStatus) => {
+        if (cancelled) return
+
+        if (subscribeStatus === "SUBSCRIBED") {
+          stopPolling()
+          setStatus("live")
+          // Reconcile anything missed while disconnected
+          loadSnapshot()
+        } else if (subscribeStatus === "CHANNEL_ERROR" || subscribeStatus === "TIMED_OUT" || subscribeStatus === "CLOSED") {
+          startPolling()
+        }
+      })
+
+    loadSnapshot()
+    tallyTimer = setInterval(() => {
+      if (!pollTimer) loadSnapshot()
+    }, pollInterval)
+
+    return () => {
+      cancelled = true
+      stopPolling()
+      if (tallyTimer) clearInterval(tallyTimer)
+      supabase.removeChannel(channel)
+    }
+  }, [electionId, postIdsKey, windowMinutes, pollInterval])
+
+  // Slide the recent-votes window forward even when no new votes arrive
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const windowStart = now - windowMinutes * 60 * 1000
+  const votesInWindow = recentVotes.filter((t) => t >= windowStart).length
+
+  return {
+    ...counts,
+    votesInWindow,
+    votesPerMinute: votesInWindow / windowMinutes,
+    status,
+    loading,
+  }
+}
@@ -0,0 +1,218 @@
+// Server-side account checks and repairs for /api/users/accounts. Runs with the service role
+// client (auth admin API), so each route must requirePermission("manage_voters") first.
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { fetchAllRows } from "./supabase"
+import { normalizeEmail, normalizeMatricNo } from "./voter-register"
+import type { AccountIssue, AccountRepairAction } from "./accounts"
+import { ApiError } from "./api"
+
+const REPAIR_ACTIONS: AccountRepairAction[] = ["create_profile", "sync_email", "revoke_verification", "delete_user"]
+
+const AUTH_USERS_PAGE_SIZE = 1000
+
+interface ProfileRow {
+  id: string
+  email: string
+  name: string
+  matric_no: string | null
+  role: string
+  verified_at: string | null
+}
+
+export function parseRepairInput(body: any): AccountRepairAction {
+  if (!REPAIR_ACTIONS.includes(body?.action)) {
+    throw new ApiError("INVALID_REQUEST", "A valid repair action is required")
+  }
+  return body.action
+}
+
+async function listAuthUsers(supabase: SupabaseClient): Promise<User[]> {
+  const users: User[] = []
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: AUTH_USERS_PAGE_SIZE })
+    if (error) throw error
+
+    users.push(...data.users)
+    if (data.users.length < AUTH_USERS_PAGE_SIZE) return users
+  }
+}
+
+// register maps matric number to the register's email ("" when it has none);
+// matricOwners maps each matric number already on a profile to that profile's id
+function diagnose(
+  user: User,
+  profile: ProfileRow | undefined,
+  register: Map<string, string>,
+  matricOwners: Map<string, string>,
+): AccountIssue[] {
+  const email = normalizeEmail(user.email || "")
+
+  if (!profile) {
+    const matricNo = normalizeMatricNo(user.user_metadata?.matric_no || "")
+    const name = user.user_metadata?.name || null
+    // Only rebuild the profile registration would have created: on the register, under its email
+    const canCreate = !!matricNo && !!name && register.get(matricNo) === email && !matricOwners.has(matricNo)
+
+    return [
+      {
+        user_id: user.id,
+        email,
+        name,
+        matric_no: matricNo || null,
+        kind: "missing_profile",
+        detail: matricNo ? `Signed up as ${matricNo} but no profile was created` : "Signed up without registration details",
+        actions: canCreate ? ["create_profile", "delete_user"] : ["delete_user"],
+      },
+    ]
+  }
+
+  const issues: AccountIssue[] = []
+  const account = { user_id: user.id, email, name: profile.name, matric_no: profile.matric_no }
+
+  if (normalizeEmail(profile.email) !== email) {
+    issues.push({
+      ...account,
+      kind: "email_mismatch",
+      detail: `Profile says ${profile.email}; the account signs in as ${email}`,
+      actions: ["sync_email"],
+    })
+  }
+
+  // Staff accounts don't have to be on the register
+  if (profile.role === "user") {
+    const registerEmail = profile.matric_no ? register.get(profile.matric_no) : undefined
+    const detail =
+      registerEmail === undefined
+        ? `${profile.matric_no || "No matric number"} is not on the register`
+        : !registerEmail
+          ? `The register has no email for ${profile.matric_no}`
+          : registerEmail !== email
+            ? `The register holds ${registerEmail} for ${profile.matric_no}`
+            : null
+
+    if (detail) {
+      issues.push({
+        ...account,
+        kind: "register_mismatch",
+        detail,
+        actions: profile.verified_at ? ["revoke_verification", "delete_user"] : ["delete_user"],
+      })
+    }
+  }
+
+  return issues
+}
+
+async function findIssues(supabase: SupabaseClient, users: User[]): Promise<AccountIssue[]> {
+  const [profiles, register] = await Promise.all([
+    fetchAllRows<ProfileRow>((from, to) =>
+      supabase.from("profiles").select("id, email, name, matric_no, role, verified_at").order("id").range(from, to),
+    ),
+    fetchAllRows<{ matric_no: string; email: string | null }>((from, to) =>
+      supabase.from("eligible_voters").select("matric_no, email").order("matric_no").range(from, to),
+    ),
+  ])
+
+  const profilesById = new Map<string, ProfileRow>(profiles.map((profile) => [profile.id, profile]))
+  const registerEmails = new Map<string, string>(
+    register.map((row) => [row.matric_no, row.email ? normalizeEmail(row.email) : ""]),
+  )
+  const matricOwners = new Map<string, string>(
+    profiles.filter((profile) => profile.matric_no).map((profile) => [profile.matric_no!, profile.id]),
+  )
+
+  const issues = users.flatMap((user) => diagnose(user, profilesById.get(user.id), registerEmails, matricOwners))
+
+  // Deleting an account deletes the record that it voted, which turnout counts, so voters who already
+  // voted can't be deleted here
+  const deletableIds = issues.filter((issue) => issue.kind === "register_mismatch").map((issue) => issue.user_id)
+  if (deletableIds.length === 0) return issues
+
+  const participation = await fetchAllRows<{ user_id: string }>((from, to) =>
+    supabase
+      .from("ballot_participation")
+      .select("user_id")
+      .in("user_id", deletableIds)
+      .order("user_id")
+      .order("post_id")
+      .range(from, to),
+  )
+
+  const votedIds = new Set(participation.map((row) => row.user_id))
+  return issues.map((issue) =>
+    issue.kind === "register_mismatch" && votedIds.has(issue.user_id)
+      ? { ...issue, actions: issue.actions.filter((action) => action !== "delete_user") }
+      : issue,
+  )
+}
+
+export async function getAccountIssues(supabase: SupabaseClient): Promise<AccountIssue[]> {
+  return findIssues(supabase, await listAuthUsers(supabase))
+}
+
+async function applyRepair(supabase: SupabaseClient, issue: AccountIssue, action: AccountRepairAction) {
+  switch (action) {
+    case "create_profile": {
+      // Created unverified: the voter still proves the email is theirs with a code
+      const { error } = await supabase
+        .from("profiles")
+        .insert([{ id: issue.user_id, email: issue.email, name: issue.name, matric_no: issue.matric_no, role: "user" }])
+      if (error?.code === "23505") {
+        throw new ApiError("CONFLICT", "Another account already holds this matric number")
+      }
+      if (error) throw error
+      return
+    }
+    case "sync_email": {
+      const { error } = await supabase.from("profiles").update({ email: issue.email }).eq("id", issue.user_id)
+      if (error) throw error
+      return
+    }
+    case "revoke_verification": {
+      const { error } = await supabase.from("profiles").update({ verified_at: null }).eq("id", issue.user_id)
+      if (error) throw error
+      return
+    }
+    case "delete_user": {
+      const { error } = await supabase.auth.admin.deleteUser(issue.user_id)
+      if (error) throw error
+      return
+    }
+  }
+}
+
+// Applies one repair, provided it is still one the account's current issues allow, and records
+// it in audit_logs. Returns the account's remaining issues.
+export async function repairAccount(
+  supabase: SupabaseClient,
+  actorId: string,
+  userId: string,
+  action: AccountRepairAction,
+  clientHeaders: Record<string, string>,
+): Promise<AccountIssue[]> {
+  const { data, error: userError } = await supabase.auth.admin.getUserById(userId)
+  if (userError || !data.user) throw new ApiError("NOT_FOUND", "Account not found")
+
+  const user = data.user
+  const issue = (await findIssues(supabase, [user])).find((candidate) => candidate.actions.includes(action))
+  if (!issue) {
+    throw new ApiError("CONFLICT", "That repair no longer applies to this account; refresh the list")
+  }
+
+  await applyRepair(supabase, issue, action)
+
+  const { error: auditError } = await supabase.from("audit_logs").insert([
+    {
+      user_id: actorId,
+      action: "REPAIR",
+      table_name: "profiles",
+      record_id: user.id,
+      new_values: { repair: action, issue: issue.kind, email: issue.email, matric_no: issue.matric_no },
+      ip_address: clientHeaders["x-client-ip"] || null,
+      user_agent: clientHeaders["x-client-user-agent"] || null,
+    },
+  ])
+  if (auditError) console.error("Failed to record account repair in the audit log:", auditError)
+
+  return action === "delete_user" ? [] : findIssues(supabase, [user])
+}
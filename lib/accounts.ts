@@ -0,0 +1,42 @@
+// Account health checks: auth users and profiles that drifted apart (e.g. a registration that
+// failed half-way before it moved to the server) and the repairs an admin can apply to them
+import { apiRequest } from "./api"
+
+export type AccountIssueKind = "missing_profile" | "email_mismatch" | "register_mismatch"
+
+export type AccountRepairAction = "create_profile" | "sync_email" | "revoke_verification" | "delete_user"
+
+export const ACCOUNT_ISSUE_LABELS: Record<AccountIssueKind, string> = {
+  missing_profile: "No profile",
+  email_mismatch: "Email out of sync",
+  register_mismatch: "Not matching register",
+}
+
+export const ACCOUNT_REPAIR_LABELS: Record<AccountRepairAction, string> = {
+  create_profile: "Create Profile",
+  sync_email: "Sync Email",
+  revoke_verification: "Revoke Verification",
+  delete_user: "Delete Account",
+}
+
+export interface AccountIssue {
+  user_id: string
+  email: string
+  name: string | null
+  matric_no: string | null
+  kind: AccountIssueKind
+  detail: string
+  // The repairs that are safe for this account; empty means it needs a person to sort it out
+  actions: AccountRepairAction[]
+}
+
+export const accountApi = {
+  getIssues() {
+    return apiRequest<AccountIssue[]>("/api/users/accounts")
+  },
+
+  // Applies one repair and returns the account's remaining issues, if any
+  repair(userId: string, action: AccountRepairAction) {
+    return apiRequest<AccountIssue[]>(`/api/users/accounts/${userId}`, { method: "POST", body: { action } })
+  },
+}
@@ -0,0 +1,49 @@
+// Turns errors thrown inside a route handler into the JSON response the browser clients expect
+import { NextResponse } from "next/server"
+import { ApiError, type ApiErrorCode } from "./api"
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  INVALID_REQUEST: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  INTERNAL_ERROR: 500,
+  BALLOT_LOCKED: 409,
+  INVALID_TRANSITION: 409,
+  NOT_PUBLISHED: 403,
+  INVALID_ROWS: 422,
+  WEAK_PASSWORD: 400,
+  INVALID_CODE: 400,
+  NOT_ELIGIBLE: 403,
+  NO_EMAIL_ON_RECORD: 403,
+  EMAIL_MISMATCH: 403,
+  EMAIL_TAKEN: 409,
+  ALREADY_REGISTERED: 409,
+  POST_NOT_FOUND: 404,
+  ELECTION_INACTIVE: 403,
+  ELECTION_NOT_STARTED: 403,
+  ELECTION_ENDED: 403,
+  CANDIDATE_NOT_IN_POST: 400,
+  INVALID_RANKING: 400,
+  TOO_MANY_SELECTIONS: 400,
+  APPROVAL_REQUIRED: 400,
+  ABSTAIN_NOT_ALLOWED: 400,
+  PROFILE_NOT_FOUND: 403,
+  NOT_VERIFIED: 403,
+  ALREADY_VOTED: 409,
+}
+
+// An ApiError goes back as thrown; anything else is logged and answered with fallbackMessage
+export function apiErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof ApiError) {
+    const { message, code, postId }: ApiError = error
+    return NextResponse.json(
+      { error: message, code, ...(postId ? { post_id: postId } : {}) },
+      { status: API_ERROR_STATUS[code] },
+    )
+  }
+
+  console.error(`${fallbackMessage}:`, error)
+  return NextResponse.json({ error: fallbackMessage, code: "INTERNAL_ERROR" }, { status: 500 })
+}
@@ -0,0 +1,80 @@
+// The error every JSON API route answers with ({ error, code }) and the browser-side request helper
+// that turns it back into an ApiError. Route handlers respond with apiErrorResponse() in ./api-server.
+
+export type ApiErrorCode =
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "INVALID_REQUEST"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "INTERNAL_ERROR"
+  // Elections and their positions
+  | "BALLOT_LOCKED"
+  | "INVALID_TRANSITION"
+  // Ballot receipts
+  | "NOT_PUBLISHED"
+  // Voter register import
+  | "INVALID_ROWS"
+  // Registration
+  | "WEAK_PASSWORD"
+  | "INVALID_CODE"
+  | "NOT_ELIGIBLE"
+  | "NO_EMAIL_ON_RECORD"
+  | "EMAIL_MISMATCH"
+  | "EMAIL_TAKEN"
+  | "ALREADY_REGISTERED"
+  // Voting
+  | "POST_NOT_FOUND"
+  | "ELECTION_INACTIVE"
+  | "ELECTION_NOT_STARTED"
+  | "ELECTION_ENDED"
+  | "CANDIDATE_NOT_IN_POST"
+  | "INVALID_RANKING"
+  | "TOO_MANY_SELECTIONS"
+  | "APPROVAL_REQUIRED"
+  | "ABSTAIN_NOT_ALLOWED"
+  | "PROFILE_NOT_FOUND"
+  | "NOT_VERIFIED"
+  | "ALREADY_VOTED"
+
+const DEFAULT_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  UNAUTHENTICATED: "Sign in to continue",
+  FORBIDDEN: "You do not have access to this action",
+}
+
+export class ApiError<C extends ApiErrorCode = ApiErrorCode> extends Error {
+  code: C
+  // On a whole ballot, the position the error is about
+  postId?: string
+
+  constructor(code: C, message?: string, postId?: string) {
+    super(message || DEFAULT_MESSAGES[code] || "Request failed")
+    this.name = "ApiError"
+    this.code = code
+    this.postId = postId
+  }
+}
+
+interface ApiRequestOptions {
+  method?: string
+  // Sent as JSON
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+// Calls one of this app's API routes and returns its JSON, or throws the ApiError it answered with
+export async function apiRequest<T>(path: string, { method = "GET", body, headers }: ApiRequestOptions = {}): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new ApiError(payload?.code || "INTERNAL_ERROR", payload?.error, payload?.post_id)
+  }
+
+  return payload
+}
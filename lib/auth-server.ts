@@ -0,0 +1,32 @@
+// Server-side access guards for route handlers. The role always comes from profiles.role under the
+// caller's session; the role AuthProvider holds in the browser is only ever a UX hint.
+import type { User } from "@supabase/supabase-js"
+import { createRouteClient, getSessionUser } from "./supabase/server"
+import { hasPermission, type Permission } from "./roles"
+import { ApiError } from "./api"
+
+export async function getProfileRole(userId: string): Promise<string | null> {
+  const { data: profile, error } = await createRouteClient()
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return profile?.role ?? null
+}
+
+export async function requireUser(): Promise<User> {
+  const user = await getSessionUser()
+  if (!user) throw new ApiError("UNAUTHENTICATED")
+  return user
+}
+
+// The signed-in user, provided their role grants `permission` (see ROLE_PERMISSIONS)
+export async function requirePermission(permission: Permission): Promise<User> {
+  const user = await requireUser()
+  if (!hasPermission(await getProfileRole(user.id), permission)) {
+    throw new ApiError("FORBIDDEN", "Your role does not allow this action")
+  }
+  return user
+}
@@ -1,18 +1,27 @@
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
-import { supabaseOperations } from "./supabase"
+import type { AuthChangeEvent, Session } from "@supabase/supabase-js"
+import type { UserRole } from "./roles"
+import { ApiError } from "./api"
+import { registrationApi, type RegistrationInput } from "./registration"
 
 export interface User {
   id: string
   email: string
   name: string
   matric_no: string
-  role: "admin" | "user"
+  role: UserRole
+  // Set once the voter proves they own the matric number; unverified voters can't vote
+  verified_at: string | null
 }
 
 export class AuthService {
   private supabase = createClientComponentClient()
 
-  async signIn(email: string, password: string): Promise<{ user: User | null; error: string | null }> {
+  // needsVerification: the account exists but registration wasn't finished with the emailed code
+  async signIn(
+    email: string,
+    password: string,
+  ): Promise<{ user: User | null; error: string | null; needsVerification?: boolean }> {
     try {
       const { data, error: authError } = await this.supabase.auth.signInWithPassword({
         email,
@@ -21,6 +30,9 @@ export class AuthService {
 
       if (authError) {
         console.error("Supabase signIn error:", authError)
+        if (authError.code === "email_not_confirmed") {
+          return { user: null, error: "Verify your email to finish registering.", needsVerification: true }
+        }
         return { user: null, error: authError.message }
       }
 
@@ -28,36 +40,9 @@ export class AuthService {
         return { user: null, error: "Authentication failed: No user data returned." }
       }
 
-      // Fetch profile by ID
-      let { data: profile, error: profileError } = await this.supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", data.user.id)
-        .single()
-
-      // Fallback: Try fetching by email
-      if (profileError || !profile) {
-        const alt = await this.supabase
-          .from("profiles")
-          .select("*")
-          .eq("email", data.user.email)
-          .single()
-
-        profile = alt.data
-        profileError = alt.error
-      }
-
-      if (profileError || !profile) {
-        console.error("Supabase profile fetch error:", profileError)
-        return { user: null, error: "Failed to retrieve user profile." }
-      }
-
-      const currentUser: User = {
-        id: profile.id,
-        email: profile.email,
-        name: profile.name,
-        matric_no: profile.matric_no,
-        role: profile.role,
+      const currentUser = await this.getProfile(data.user.id)
+      if (!currentUser) {
+        return { user: null, error: "Verify your email to finish registering.", needsVerification: true }
       }
 
       return { user: currentUser, error: null }
@@ -67,94 +52,90 @@ export class AuthService {
     }
   }
 
-  async signUp(userData: {
-    email: string
-    name: string
-    matric_no: string
-    password: string
-  }): Promise<{ user: User | null; error: string | null }> {
+  // Registers through POST /api/registration, which creates the account and its profile together
+  // and emails a verification code to the register's institutional address. The profile only
+  // becomes a voter once POST /api/registration/verify accepts that code.
+  async signUp(userData: RegistrationInput): Promise<{ error: string | null; codeSent: boolean }> {
     try {
-      // Normalize matric number input
-      const normalizedInput = userData.matric_no.trim().toUpperCase()
-
-      // Fetch eligible voters and check
-      const eligibleVoters = await supabaseOperations.getEligibleVoters()
-      const isEligible = eligibleVoters.some(
-        (v) => v.matric_no.trim().toUpperCase() === normalizedInput
-      )
-
-      if (!isEligible) {
-        return { user: null, error: "Matric number not found in eligible voters list" }
+      const { code_sent } = await registrationApi.register(userData)
+      return { error: null, codeSent: code_sent }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { error: error.message, codeSent: false }
       }
+      console.error("Unexpected signUp error:", error)
+      return { error: "An unexpected error occurred during registration.", codeSent: false }
+    }
+  }
 
-      // Sign up user with Supabase Auth
-      const { data, error: authError } = await this.supabase.auth.signUp({
-        email: userData.email,
-        password: userData.password,
-        options: {
-          data: {
-            name: userData.name,
-          },
-        },
-      })
+  // Emails a fresh 6-digit code. Never creates an account: the address must already have signed up
+  async sendVerificationCode(email: string): Promise<{ error: string | null }> {
+    const { error } = await this.supabase.auth.signInWithOtp({
+      email: email.trim().toLowerCase(),
+      options: { shouldCreateUser: false },
+    })
 
-      if (authError) {
-        console.error("Supabase signUp error:", authError)
-        return { user: null, error: authError.message }
-      }
+    if (error) {
+      console.error("Supabase verification code error:", error)
+      return { error: error.message }
+    }
+    return { error: null }
+  }
 
-      if (!data.user) {
-        return { user: null, error: "Registration failed: No user data returned." }
-      }
+  // Emails a recovery link that lands on /reset-password. Supabase doesn't say whether the
+  // address has an account, and neither do we
+  async requestPasswordReset(email: string): Promise<{ error: string | null }> {
+    const { error } = await this.supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: `${window.location.origin}/reset-password`,
+    })
 
-      // Insert into 'profiles' table
-      const { data: profile, error: profileError } = await this.supabase
-        .from("profiles")
-        .insert([
-          {
-            id: data.user.id,
-            email: userData.email,
-            name: userData.name,
-            matric_no: normalizedInput,
-            role: "user",
-          },
-        ])
-        .select("*")
-        .single()
-
-      if (profileError || !profile) {
-        console.error("Supabase profile insert error:", profileError)
-        console.warn("Profile creation failed. Manual cleanup may be needed.") // ✅ Safe fallback
-        return { user: null, error: "Failed to create user profile after registration." }
-      }
+    if (error) {
+      console.error("Supabase password reset error:", error)
+      return { error: error.message }
+    }
+    return { error: null }
+  }
 
-      const newUser: User = {
-        id: profile.id,
-        email: profile.email,
-        name: profile.name,
-        matric_no: profile.matric_no,
-        role: profile.role,
-      }
+  // Sets a new password for the session opened by the recovery link
+  async updatePassword(password: string): Promise<{ error: string | null }> {
+    const { error } = await this.supabase.auth.updateUser({ password })
 
-      return { user: newUser, error: null }
-    } catch (error) {
-      console.error("Unexpected signUp error:", error)
-      return { user: null, error: "An unexpected error occurred during registration." }
+    if (error) {
+      console.error("Supabase password update error:", error)
+      return { error: error.message }
     }
+    return { error: null }
   }
 
   async signOut() {
     await this.supabase.auth.signOut()
-    localStorage.removeItem("currentUser")
   }
 
-  getCurrentUser(): User | null {
-    const userData = localStorage.getItem("currentUser")
-    return userData ? JSON.parse(userData) : null
+  // The signed-in user's profile, read fresh from the database; null if they have none yet
+  async getProfile(userId: string): Promise<User | null> {
+    const { data: profile, error } = await this.supabase
+      .from("profiles")
+      .select("id, email, name, matric_no, role, verified_at")
+      .eq("id", userId)
+      .maybeSingle()
+
+    if (error) throw error
+    return profile
   }
 
-  setCurrentUser(user: User) {
-    localStorage.setItem("currentUser", JSON.stringify(user))
+  // Fires on sign-in, sign-out and token refresh, including those made in other tabs
+  onAuthStateChange(callback: (event: AuthChangeEvent, session: Session | null) => void) {
+    const {
+      data: { subscription },
+    } = this.supabase.auth.onAuthStateChange(callback)
+    return () => subscription.unsubscribe()
+  }
+
+  async getSession() {
+    const {
+      data: { session },
+    } = await this.supabase.auth.getSession()
+    return session
   }
 
   async getSupabaseUser() {
@@ -1,5 +1,13 @@
 // Data caching and prefetching utilities
 import { supabaseOperations } from "./supabase"
+import {
+  castBallot,
+  castVote,
+  isRetryableVoteError,
+  type CastBallotInput,
+  type CastVoteInput,
+  type CastVoteResult,
+} from "./votes"
 
 interface CacheItem<T> {
   data: T
@@ -42,12 +50,17 @@ class DataCache {
 export const dataCache = new DataCache()
 
 // Retry utility with exponential backoff
-export async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3, baseDelay = 1000): Promise<T> {
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true,
+): Promise<T> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await fn()
     } catch (error) {
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || !shouldRetry(error)) {
         throw error
       }
 
@@ -99,13 +112,27 @@ export async function prefetchElectionData(electionId: string): Promise<void> {
   }
 }
 
-// Vote submission with retry
-export async function submitVote(voteData: any): Promise<any> {
+// Vote submission with retry. Every attempt carries the same request key, so a retry after a lost
+// response gets the recorded vote back rather than ALREADY_VOTED.
+export async function submitVote(input: CastVoteInput, requestKey: string): Promise<CastVoteResult> {
   return retryWithBackoff(
     async () => {
-      return await supabaseOperations.submitVote(voteData)
+      return await castVote(input, requestKey)
     },
     3,
     1000,
+    isRetryableVoteError,
+  )
+}
+
+// Whole-ballot submission, retried on the same terms as submitVote
+export async function submitBallot(input: CastBallotInput, requestKey: string): Promise<CastVoteResult[]> {
+  return retryWithBackoff(
+    async () => {
+      return await castBallot(input, requestKey)
+    },
+    3,
+    1000,
+    isRetryableVoteError,
   )
 }
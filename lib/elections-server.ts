@@ -0,0 +1,218 @@
+// Server-side helpers for the election and post management API routes
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  RESULTS_VISIBILITY_LABELS,
+  VOTING_METHOD_LABELS,
+  canTransition,
+  getElectionStatus,
+  isBallotLocked,
+  type Election,
+  type ElectionInput,
+  type ElectionStatus,
+  type Post,
+  type PostInput,
+} from "./elections"
+import { ApiError } from "./api"
+
+const isValidDate = (value: unknown) => typeof value === "string" && !Number.isNaN(Date.parse(value))
+
+// Validate an election body. With `partial`, only the fields present are checked.
+export function parseElectionInput(body: any, partial = false): Partial<ElectionInput> {
+  if (!body || typeof body !== "object") {
+    throw new ApiError("INVALID_REQUEST", "Request body is required")
+  }
+
+  const input: Partial<ElectionInput> = {}
+
+  if (body.title !== undefined || !partial) {
+    if (typeof body.title !== "string" || body.title.trim() === "") {
+      throw new ApiError("INVALID_REQUEST", "Election title is required")
+    }
+    input.title = body.title.trim()
+  }
+
+  if (body.description !== undefined) {
+    input.description = body.description ? String(body.description) : null
+  }
+
+  for (const field of ["start_time", "end_time"] as const) {
+    if (body[field] !== undefined || !partial) {
+      if (!isValidDate(body[field])) {
+        throw new ApiError("INVALID_REQUEST", `A valid ${field.replace("_", " ")} is required`)
+      }
+      input[field] = new Date(body[field]).toISOString()
+    }
+  }
+
+  if (body.results_visibility !== undefined) {
+    if (!Object.keys(RESULTS_VISIBILITY_LABELS).includes(body.results_visibility)) {
+      throw new ApiError("INVALID_REQUEST", "A valid results visibility is required")
+    }
+    input.results_visibility = body.results_visibility
+  }
+
+  return input
+}
+
+export function parsePostInput(body: any, partial = false): Partial<PostInput> {
+  if (!body || typeof body !== "object") {
+    throw new ApiError("INVALID_REQUEST", "Request body is required")
+  }
+
+  const input: Partial<PostInput> = {}
+
+  if (body.title !== undefined || !partial) {
+    if (typeof body.title !== "string" || body.title.trim() === "") {
+      throw new ApiError("INVALID_REQUEST", "Position title is required")
+    }
+    input.title = body.title.trim()
+  }
+
+  if (body.description !== undefined) {
+    input.description = body.description ? String(body.description) : null
+  }
+
+  if (body.voting_method !== undefined) {
+    if (!Object.keys(VOTING_METHOD_LABELS).includes(body.voting_method)) {
+      throw new ApiError("INVALID_REQUEST", "A valid voting method is required")
+    }
+    input.voting_method = body.voting_method
+  }
+
+  for (const field of ["seats", "max_selections"] as const) {
+    if (body[field] !== undefined) {
+      if (!Number.isInteger(body[field]) || body[field] < 1) {
+        throw new ApiError("INVALID_REQUEST", `${field === "seats" ? "Seats" : "Maximum selections"} must be at least 1`)
+      }
+      input[field] = body[field]
+    }
+  }
+
+  if (body.approval_threshold !== undefined) {
+    const threshold = body.approval_threshold
+    if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold < 0 || threshold >= 100) {
+      throw new ApiError("INVALID_REQUEST", "The approval threshold must be a percentage from 0 to below 100")
+    }
+    input.approval_threshold = Math.round(threshold * 100) / 100
+  }
+
+  if (body.allow_abstain !== undefined) {
+    if (typeof body.allow_abstain !== "boolean") {
+      throw new ApiError("INVALID_REQUEST", "Whether voters may abstain must be true or false")
+    }
+    input.allow_abstain = body.allow_abstain
+  }
+
+  return input
+}
+
+// Checked against the post as it will be saved, since a partial update may change only one field
+export function assertValidBallotRule(post: Pick<Post, "voting_method" | "seats" | "max_selections">) {
+  if (post.voting_method !== "plurality" && (post.seats !== 1 || post.max_selections !== 1)) {
+    throw new ApiError("INVALID_REQUEST", "Ranked-choice and referendum positions fill a single seat")
+  }
+}
+
+export function assertValidWindow(election: Pick<Election, "start_time" | "end_time">) {
+  if (new Date(election.end_time) <= new Date(election.start_time)) {
+    throw new ApiError("INVALID_REQUEST", "The election must end after it starts")
+  }
+}
+
+export async function getElectionOrThrow(supabase: SupabaseClient, electionId: string): Promise<Election> {
+  const { data, error } = await supabase.from("elections").select("*").eq("id", electionId).maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError("NOT_FOUND", "Election not found")
+  return data
+}
+
+export function assertBallotEditable(election: Election) {
+  if (isBallotLocked(election)) {
+    throw new ApiError("BALLOT_LOCKED", "Voting has started; the ballot for this election can no longer be changed")
+  }
+}
+
+// Move an election to a new lifecycle status. The database records who did it (see
+// record_election_status_change() in scripts/election-lifecycle.sql).
+export async function transitionElection(
+  supabase: SupabaseClient,
+  election: Election,
+  to: ElectionStatus,
+): Promise<Election> {
+  const from = getElectionStatus(election)
+  if (!canTransition(from, to)) {
+    throw new ApiError("INVALID_TRANSITION", `An election that is ${from} cannot be moved to ${to}`)
+  }
+
+  const now = new Date()
+  const changes: Partial<Election> = { status: to }
+
+  if (to === "scheduled") {
+    if (new Date(election.end_time) <= now) {
+      throw new ApiError("INVALID_REQUEST", "Set a closing time in the future before scheduling this election")
+    }
+
+    const { data: posts, error: postsError } = await supabase
+      .from("posts")
+      .select("title, voting_method, candidates(count)")
+      .eq("election_id", election.id)
+
+    if (postsError) throw postsError
+    if (!posts?.length) {
+      throw new ApiError("INVALID_REQUEST", "Add at least one position before scheduling this election")
+    }
+
+    // A referendum asks Yes or No about one person, so it needs exactly one
+    const badReferendum = posts.find(
+      (post: any) => post.voting_method === "referendum" && post.candidates?.[0]?.count !== 1,
+    )
+    if (badReferendum) {
+      throw new ApiError(
+        "INVALID_REQUEST",
+        `"${badReferendum.title}" is a Yes/No referendum and needs exactly one candidate before scheduling`,
+      )
+    }
+  }
+
+  // Opening or closing by hand moves the window so the clock agrees with the status
+  if (to === "open" && new Date(election.start_time) > now) changes.start_time = now.toISOString()
+  if (to === "closed" && new Date(election.end_time) > now) changes.end_time = now.toISOString()
+
+  const { data: updated, error } = await supabase
+    .from("elections")
+    .update(changes)
+    .eq("id", election.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return updated
+}
+
+// Keep an open election open for longer; its status history shows this as open → open
+export async function extendElection(
+  supabase: SupabaseClient,
+  election: Election,
+  endTime: string,
+): Promise<Election> {
+  const status = getElectionStatus(election)
+  if (status !== "open") {
+    throw new ApiError("INVALID_TRANSITION", `An election that is ${status} cannot be extended`)
+  }
+
+  const end = new Date(endTime)
+  if (Number.isNaN(end.getTime()) || end <= new Date(election.end_time)) {
+    throw new ApiError("INVALID_REQUEST", "The new closing time must be later than the current one")
+  }
+
+  const { data: updated, error } = await supabase
+    .from("elections")
+    .update({ end_time: end.toISOString() })
+    .eq("id", election.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return updated
+}
@@ -0,0 +1,241 @@
+// Shared election/post management types and the browser-side client for the admin API routes
+import { apiRequest } from "./api"
+import type { LedgerReport } from "./ledger"
+
+export type ElectionStatus = "draft" | "scheduled" | "open" | "closed" | "certified"
+
+// When voters may see tallies: while voting is open, once it closes, or only after an admin publishes them
+export type ResultsVisibility = "live" | "after_close" | "after_publish"
+
+// How a post's ballots are cast and counted: one choice, candidates ranked and counted by
+// instant-runoff, or Yes/No on a single candidate
+export type VotingMethod = "plurality" | "ranked" | "referendum"
+
+export interface Election {
+  id: string
+  title: string
+  description: string | null
+  start_time: string
+  end_time: string
+  status: ElectionStatus
+  results_visibility: ResultsVisibility
+  results_published_at: string | null
+  archived_at: string | null
+}
+
+export interface ElectionStatusChange {
+  id: string
+  election_id: string
+  from_status: ElectionStatus
+  to_status: ElectionStatus
+  changed_by: string | null
+  created_at: string
+}
+
+export interface Post {
+  id: string
+  election_id: string
+  title: string
+  description: string | null
+  position: number
+  voting_method: VotingMethod
+  // Places the post fills, and how many candidates each voter may choose (plurality posts only)
+  seats: number
+  max_selections: number
+  // Percentage of Yes votes a referendum must exceed for its candidate to be elected
+  approval_threshold: number
+  // Whether voters may abstain, recorded as a ballot for no candidate
+  allow_abstain: boolean
+}
+
+export type ElectionInput = Pick<Election, "title" | "description" | "start_time" | "end_time" | "results_visibility">
+export type PostInput = Pick<
+  Post,
+  "title" | "description" | "voting_method" | "seats" | "max_selections" | "approval_threshold" | "allow_abstain"
+>
+
+export const ELECTION_STATUS_LABELS: Record<ElectionStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  open: "Open",
+  closed: "Closed",
+  certified: "Certified",
+}
+
+export const RESULTS_VISIBILITY_LABELS: Record<ResultsVisibility, string> = {
+  live: "Live, while voting is open",
+  after_close: "After voting closes",
+  after_publish: "After an admin publishes them",
+}
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+  plurality: "Single choice",
+  ranked: "Ranked choice (instant-runoff)",
+  referendum: "Yes/No referendum",
+}
+
+type BallotFields = Pick<Post, "voting_method" | "seats" | "max_selections">
+
+// What the ballot asks of voters, e.g. "2 seats · choose up to 3"; null for an ordinary single-choice post
+export function describeBallot(post: BallotFields): string | null {
+  if (post.voting_method !== "plurality") return VOTING_METHOD_LABELS[post.voting_method]
+  if (post.seats === 1 && post.max_selections === 1) return null
+
+  const seats = post.seats === 1 ? "1 seat" : `${post.seats} seats`
+  return post.max_selections === 1 ? `${seats} · choose 1` : `${seats} · choose up to ${post.max_selections}`
+}
+
+// Unopposed posts are voted on as a referendum whatever their method, since choosing the only
+// candidate would always give them 100%. Keep in step with post_is_referendum() in scripts/referendum.sql
+export function isReferendum(post: Pick<Post, "voting_method">, candidateCount: number): boolean {
+  return post.voting_method === "referendum" || candidateCount === 1
+}
+
+export interface ReferendumResult {
+  yes: number
+  no: number
+  threshold: number
+  approved: boolean
+}
+
+// Whether the Yes share of a referendum's Yes/No votes exceeds the threshold; fails with no votes
+export function isReferendumApproved(yes: number, no: number, threshold: number): boolean {
+  return yes + no > 0 && (yes / (yes + no)) * 100 > threshold
+}
+
+// The top `seats` candidates by votes. Candidates tied for the last seat are all left out, since
+// the count alone can't choose between them, and nobody is elected without a vote.
+export function getElectedCandidateIds(candidates: { id: string; vote_count: number }[], seats: number): string[] {
+  const ranked = [...candidates].sort((a, b) => b.vote_count - a.vote_count)
+  const cutoff = ranked[seats - 1]?.vote_count ?? 0
+  const atOrAboveCutoff = ranked.filter((c) => c.vote_count >= cutoff && c.vote_count > 0)
+
+  return (atOrAboveCutoff.length <= seats ? atOrAboveCutoff : atOrAboveCutoff.filter((c) => c.vote_count > cutoff)).map(
+    (c) => c.id,
+  )
+}
+
+// Transitions an admin may make. scheduled → open and open → closed also happen on their own
+// when start_time / end_time pass (see getElectionStatus); making them by hand opens or closes early.
+export const ELECTION_TRANSITIONS: Record<ElectionStatus, ElectionStatus[]> = {
+  draft: ["scheduled"],
+  scheduled: ["draft", "open"],
+  open: ["closed"],
+  closed: ["certified"],
+  certified: [],
+}
+
+type LifecycleFields = Pick<Election, "status" | "start_time" | "end_time">
+
+// The status everything (voting, results, candidate editing, countdowns) should read. It is the stored
+// status with the scheduled clock applied; keep in step with election_effective_status() in SQL.
+export function getElectionStatus(election: LifecycleFields, now = new Date()): ElectionStatus {
+  const started = now >= new Date(election.start_time)
+  const ended = now >= new Date(election.end_time)
+
+  if (election.status === "scheduled" && ended) return "closed"
+  if (election.status === "scheduled" && started) return "open"
+  if (election.status === "open" && ended) return "closed"
+  return election.status
+}
+
+export function canTransition(from: ElectionStatus, to: ElectionStatus): boolean {
+  return ELECTION_TRANSITIONS[from].includes(to)
+}
+
+export function isVotingOpen(election: LifecycleFields, now = new Date()): boolean {
+  return getElectionStatus(election, now) === "open"
+}
+
+type ResultsFields = LifecycleFields & Pick<Election, "results_visibility" | "results_published_at">
+
+// Whether voters may see tallies yet; keep in step with election_results_released() in SQL
+export function areResultsVisible(election: ResultsFields, now = new Date()): boolean {
+  const status = getElectionStatus(election, now)
+
+  switch (election.results_visibility) {
+    case "live":
+      return ["open", "closed", "certified"].includes(status)
+    case "after_publish":
+      return election.results_published_at !== null
+    default:
+      return ["closed", "certified"].includes(status)
+  }
+}
+
+// When embargoed results will be released, or null when that waits on an admin publishing them
+export function getResultsReleaseTime(election: ResultsFields): string | null {
+  switch (election.results_visibility) {
+    case "live":
+      return election.start_time
+    case "after_publish":
+      return election.results_published_at
+    default:
+      return election.end_time
+  }
+}
+
+// Publishing only makes sense once the tallies are final
+export function canPublishResults(election: ResultsFields, now = new Date()): boolean {
+  return (
+    election.results_visibility === "after_publish" &&
+    election.results_published_at === null &&
+    ["closed", "certified"].includes(getElectionStatus(election, now))
+  )
+}
+
+// Once voting opens, the ballot (its posts, candidates and opening time) is frozen
+export function isBallotLocked(election: LifecycleFields, now = new Date()): boolean {
+  return ["open", "closed", "certified"].includes(getElectionStatus(election, now))
+}
+
+export const electionApi = {
+  createElection(input: ElectionInput) {
+    return apiRequest<Election>("/api/elections", { method: "POST", body: input })
+  },
+
+  updateElection(id: string, input: Partial<ElectionInput>) {
+    return apiRequest<Election>(`/api/elections/${id}`, { method: "PUT", body: input })
+  },
+
+  transitionElection(id: string, status: ElectionStatus) {
+    return apiRequest<Election>(`/api/elections/${id}/status`, { method: "POST", body: { status } })
+  },
+
+  extendElection(id: string, endTime: string) {
+    return apiRequest<Election>(`/api/elections/${id}/status`, { method: "POST", body: { end_time: endTime } })
+  },
+
+  publishResults(id: string) {
+    return apiRequest<Election>(`/api/elections/${id}/results`, { method: "POST" })
+  },
+
+  archiveElection(id: string) {
+    return apiRequest<Election>(`/api/elections/${id}`, { method: "DELETE" })
+  },
+
+  addPost(electionId: string, input: PostInput) {
+    return apiRequest<Post>(`/api/elections/${electionId}/posts`, { method: "POST", body: input })
+  },
+
+  reorderPosts(electionId: string, postIds: string[]) {
+    return apiRequest<Post[]>(`/api/elections/${electionId}/posts`, { method: "PUT", body: { post_ids: postIds } })
+  },
+
+  updatePost(id: string, input: Partial<PostInput>) {
+    return apiRequest<Post>(`/api/posts/${id}`, { method: "PUT", body: input })
+  },
+
+  deletePost(id: string) {
+    return apiRequest<{ success: boolean }>(`/api/posts/${id}`, { method: "DELETE" })
+  },
+
+  checkLedger(id: string) {
+    return apiRequest<LedgerReport>(`/api/elections/${id}/ledger`)
+  },
+
+  // Chains any ballots left once voting has ended before checking; needs change_election_status
+  sealLedger(id: string) {
+    return apiRequest<LedgerReport>(`/api/elections/${id}/ledger`, { method: "POST" })
+  },
+}
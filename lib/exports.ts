@@ -0,0 +1,194 @@
+// Downloadable report exports (CSV, XLSX and printable PDF) built in the browser.
+// The XLSX and PDF writers are loaded on demand so they stay out of the admin bundle until used.
+
+export type ExportFormat = "csv" | "xlsx" | "pdf"
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "Printable PDF",
+}
+
+type Cell = string | number | null
+
+export interface ExportTable {
+  title: string
+  columns: string[]
+  rows: Cell[][]
+  // Summary lines printed under the table, e.g. totals and turnout
+  notes?: string[]
+}
+
+export interface ExportDocument {
+  title: string
+  subtitle?: string
+  generatedAt: Date
+  tables: ExportTable[]
+  // Roles that sign off the printed sheet, e.g. "Returning Officer"
+  signatories?: string[]
+}
+
+export const DEFAULT_SIGNATORIES = ["Returning Officer", "Electoral Committee Chairperson"]
+
+// A filesystem-safe file name: "Student Union 2024" → "student-union-2024-results-2024-05-01"
+export function exportFileName(...parts: string[]) {
+  const date = new Date().toISOString().slice(0, 10)
+  return [...parts, date]
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+// Text starting with = + - or @ would run as a formula when the sheet is opened, so names and
+// titles like that are quoted with a leading '
+const guardFormula = (value: Cell): Cell =>
+  typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : value
+
+const escapeCsv = (value: Cell) => {
+  const guarded = guardFormula(value)
+  const text = guarded === null ? "" : String(guarded)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(doc: ExportDocument): string {
+  const lines: Cell[][] = [[doc.title], [`Generated ${doc.generatedAt.toLocaleString()}`]]
+
+  for (const table of doc.tables) {
+    lines.push([], [table.title], table.columns, ...table.rows)
+    table.notes?.forEach((note) => lines.push([note]))
+  }
+
+  return lines.map((line) => line.map(escapeCsv).join(",")).join("\r\n")
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+// Excel sheet names are limited to 31 characters, must be unique and can't contain []:*?/\
+function sheetName(title: string, used: Set<string>) {
+  const base = title.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 28) || "Sheet"
+  let name = base
+  for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base} ${i}`
+  used.add(name.toLowerCase())
+  return name
+}
+
+async function downloadXlsx(doc: ExportDocument, fileName: string) {
+  const { Workbook } = await import("exceljs")
+  const workbook = new Workbook()
+  const used = new Set<string>()
+
+  for (const table of doc.tables) {
+    const sheet = workbook.addWorksheet(sheetName(table.title, used))
+    const rows: Cell[][] = [[doc.title], [table.title], [], table.columns, ...table.rows]
+    if (table.notes?.length) rows.push([], ...table.notes.map((note) => [note]))
+    rows.push([], [`Generated ${doc.generatedAt.toLocaleString()}`])
+
+    sheet.addRows(rows.map((row) => row.map(guardFormula)))
+    sheet.getRow(1).font = { bold: true, size: 14 }
+    sheet.getRow(4).font = { bold: true }
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    `${fileName}.xlsx`,
+  )
+}
+
+async function downloadPdf(doc: ExportDocument, fileName: string) {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")])
+  const pdf = new jsPDF()
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 14
+
+  pdf.setFontSize(16)
+  pdf.text(doc.title, margin, 18)
+  pdf.setFontSize(10)
+  pdf.setTextColor(100)
+  if (doc.subtitle) pdf.text(doc.subtitle, margin, 25)
+  pdf.text(`Generated ${doc.generatedAt.toLocaleString()}`, margin, doc.subtitle ? 31 : 25)
+  pdf.setTextColor(0)
+
+  let y = doc.subtitle ? 40 : 34
+
+  for (const table of doc.tables) {
+    if (y > pageHeight - 40) {
+      pdf.addPage()
+      y = 20
+    }
+
+    pdf.setFontSize(12)
+    pdf.text(table.title, margin, y)
+
+    autoTable(pdf, {
+      startY: y + 3,
+      head: [table.columns],
+      body: table.rows.map((row) => row.map((cell) => (cell === null ? "" : String(cell)))),
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [5, 150, 105] },
+      // Called for each page the table runs over, so the last call leaves y just below it
+      didDrawPage: ({ cursor }) => {
+        if (cursor) y = cursor.y
+      },
+    })
+
+    y += 6
+    pdf.setFontSize(9)
+    for (const note of table.notes || []) {
+      pdf.text(note, margin, y)
+      y += 5
+    }
+    y += 6
+  }
+
+  // Signature block for the officers certifying the sheet
+  const signatories = doc.signatories || []
+  if (signatories.length > 0) {
+    if (y > pageHeight - 20 - signatories.length * 24) {
+      pdf.addPage()
+      y = 20
+    }
+
+    pdf.setFontSize(11)
+    pdf.text("Certification", margin, y)
+    y += 10
+    pdf.setFontSize(9)
+
+    for (const role of signatories) {
+      pdf.line(margin, y + 8, margin + 70, y + 8)
+      pdf.line(margin + 80, y + 8, margin + 130, y + 8)
+      pdf.line(margin + 140, y + 8, pageWidth - margin, y + 8)
+      pdf.text(`${role} (name)`, margin, y + 13)
+      pdf.text("Signature", margin + 80, y + 13)
+      pdf.text("Date", margin + 140, y + 13)
+      y += 24
+    }
+  }
+
+  pdf.save(`${fileName}.pdf`)
+}
+
+export async function exportDocument(doc: ExportDocument, format: ExportFormat, fileName: string) {
+  switch (format) {
+    case "csv":
+      // Leading BOM so Excel opens UTF-8 names correctly
+      downloadBlob(new Blob(["\uFEFF", toCsv(doc)], { type: "text/csv;charset=utf-8" }), `${fileName}.csv`)
+      return
+    case "xlsx":
+      return downloadXlsx(doc, fileName)
+    case "pdf":
+      return downloadPdf(doc, fileName)
+  }
+}
@@ -0,0 +1,190 @@
+// Server-side ballot ledger check for /api/elections/[id]/ledger. Reads ballots with the service role
+// client, so the route must requirePermission() first: "view_reports" for the read-only check (GET),
+// "change_election_status" for sealing (POST). Only the report leaves the server; the ballots and
+// their order never do.
+import { createHash } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { LedgerIssue, LedgerReport } from "./ledger"
+
+const GENESIS_HASH = "0".repeat(64)
+
+const LEDGER_PAGE_SIZE = 1000
+
+interface LedgerRow {
+  id: string
+  election_id: string
+  post_id: string
+  receipt: string | null
+  candidate_id: string | null
+  ranking: string[] | null
+  selections: string[] | null
+  approval: boolean | null
+  ledger_seq: number
+  prev_hash: string
+  ledger_hash: string
+}
+
+// Keep in step with ballot_ledger_hash() in scripts/ballot-ledger.sql
+function ledgerHash(ballot: LedgerRow): string {
+  const fields = [
+    ballot.prev_hash,
+    String(ballot.ledger_seq),
+    ballot.election_id,
+    ballot.id,
+    ballot.post_id,
+    ballot.receipt ?? "",
+    ballot.candidate_id ?? "",
+    ballot.ranking?.join(",") ?? "",
+    ballot.selections?.join(",") ?? "",
+    ballot.approval === null ? "" : String(ballot.approval),
+  ]
+  return createHash("sha256").update(fields.join("|"), "utf8").digest("hex")
+}
+
+async function listLedger(supabase: SupabaseClient, electionId: string): Promise<LedgerRow[]> {
+  const rows: LedgerRow[] = []
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("votes")
+      .select("id, election_id, post_id, receipt, candidate_id, ranking, selections, approval, ledger_seq, prev_hash, ledger_hash")
+      .eq("election_id", electionId)
+      .not("ledger_seq", "is", null)
+      .order("ledger_seq", { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < LEDGER_PAGE_SIZE) return rows
+  }
+}
+
+// Each ballot must follow on from the one before it and still hash to what was recorded when it was
+// cast; the last one must be the recorded head. Ballots deleted from the end leave no gap, so the
+// head and the participation count are what catch those.
+function walkLedger(ballots: LedgerRow[], head: { length: number; head_hash: string } | null): LedgerIssue[] {
+  const issues: LedgerIssue[] = []
+  let expectedSeq = 1
+  let prevHash = GENESIS_HASH
+
+  for (const ballot of ballots) {
+    if (ballot.ledger_seq > expectedSeq) {
+      const last = ballot.ledger_seq - 1
+      issues.push({
+        kind: "missing",
+        seq: expectedSeq,
+        detail: last === expectedSeq ? `Ballot ${expectedSeq} is missing` : `Ballots ${expectedSeq}–${last} are missing`,
+      })
+    } else if (ballot.prev_hash !== prevHash) {
+      issues.push({
+        kind: "relinked",
+        seq: ballot.ledger_seq,
+        detail: `Ballot ${ballot.ledger_seq} does not follow on from the ballot before it`,
+      })
+    }
+
+    if (ledgerHash(ballot) !== ballot.ledger_hash) {
+      issues.push({
+        kind: "altered",
+        seq: ballot.ledger_seq,
+        detail: `Ballot ${ballot.ledger_seq} has changed since it was cast`,
+      })
+    }
+
+    expectedSeq = ballot.ledger_seq + 1
+    prevHash = ballot.ledger_hash
+  }
+
+  const length = expectedSeq - 1
+  if (!head ? ballots.length > 0 : head.length !== length || head.head_hash !== prevHash) {
+    issues.push({
+      kind: "head_mismatch",
+      seq: null,
+      detail: head
+        ? `The ledger head records ${head.length} ballots, but the chain ends at ballot ${length}`
+        : "Ballots are recorded, but the ledger has no head for this election",
+    })
+  }
+
+  return issues
+}
+
+// Re-walks an election's ballot chain without writing anything, so observers can run it
+export async function checkBallotLedger(supabase: SupabaseClient, electionId: string): Promise<LedgerReport> {
+  const [
+    ballots,
+    { data: head, error: headError },
+    { count: pending, error: pendingError },
+    { count: voters, error: participationError },
+  ] = await Promise.all([
+    listLedger(supabase, electionId),
+    supabase.from("ballot_ledger_heads").select("length, head_hash").eq("election_id", electionId).maybeSingle(),
+    supabase
+      .from("votes")
+      .select("id", { count: "exact", head: true })
+      .eq("election_id", electionId)
+      .is("ledger_seq", null),
+    supabase
+      .from("ballot_participation")
+      .select("id, posts!inner(election_id)", { count: "exact", head: true })
+      .eq("posts.election_id", electionId),
+  ])
+
+  if (headError) throw headError
+  if (pendingError) throw pendingError
+  if (participationError) throw participationError
+
+  const issues = walkLedger(ballots, head)
+  const recorded = ballots.length + (pending ?? 0)
+  if ((voters ?? 0) !== recorded) {
+    issues.push({
+      kind: "count_mismatch",
+      seq: null,
+      detail: `${voters ?? 0} ballots were cast, but the ledger holds ${recorded}`,
+    })
+  }
+
+  return {
+    election_id: electionId,
+    checked_at: new Date().toISOString(),
+    ballots: ballots.length,
+    pending: pending ?? 0,
+    head_hash: head?.head_hash ?? null,
+    intact: issues.length === 0,
+    issues,
+  }
+}
+
+// Once voting has ended, chains the ballots still waiting for a batch (seal_ballot_ledger() does
+// nothing before then), then checks the ledger and records the check in audit_logs
+export async function sealBallotLedger(
+  supabase: SupabaseClient,
+  actorId: string,
+  electionId: string,
+  clientHeaders: Record<string, string>,
+): Promise<LedgerReport> {
+  const { error: sealError } = await supabase.rpc("seal_ballot_ledger", { p_election_id: electionId })
+  if (sealError) throw sealError
+
+  const report = await checkBallotLedger(supabase, electionId)
+
+  const { error: auditError } = await supabase.from("audit_logs").insert([
+    {
+      user_id: actorId,
+      action: "VERIFY",
+      table_name: "votes",
+      record_id: electionId,
+      new_values: {
+        intact: report.intact,
+        ballots: report.ballots,
+        pending: report.pending,
+        head_hash: report.head_hash,
+        issues: report.issues.length,
+      },
+      ip_address: clientHeaders["x-client-ip"] || null,
+      user_agent: clientHeaders["x-client-user-agent"] || null,
+    },
+  ])
+  if (auditError) console.error("Failed to record ledger check in the audit log:", auditError)
+
+  return report
+}
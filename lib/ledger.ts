@@ -0,0 +1,32 @@
+// Ballot ledger integrity checks: shared types for POST /api/elections/[id]/ledger, which re-walks
+// an election's hash chain of ballots (see scripts/ballot-ledger.sql)
+
+export type LedgerIssueKind = "missing" | "altered" | "relinked" | "head_mismatch" | "count_mismatch"
+
+export const LEDGER_ISSUE_LABELS: Record<LedgerIssueKind, string> = {
+  missing: "Ballots missing",
+  altered: "Ballot altered",
+  relinked: "Chain broken",
+  head_mismatch: "Head out of step",
+  count_mismatch: "Count mismatch",
+}
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind
+  // Where in the chain it was found; null for issues with the chain as a whole
+  seq: number | null
+  detail: string
+}
+
+export interface LedgerReport {
+  election_id: string
+  checked_at: string
+  // Chained ballots, then those cast while voting is open that are still waiting for a batch
+  ballots: number
+  pending: number
+  // The chain's latest hash as the ledger records it. Noting it down lets a later check show that
+  // nothing before it has been rewritten since.
+  head_hash: string | null
+  intact: boolean
+  issues: LedgerIssue[]
+}
@@ -0,0 +1,40 @@
+// Password rules shared by registration and password reset
+
+const SPECIAL_CHARACTERS = /[!@#$%^&*(),.?":{}|<>]/
+
+export const getPasswordStrength = (password: string) => {
+  let strength = 0
+  const checks = {
+    length: password.length >= 8,
+    uppercase: /[A-Z]/.test(password),
+    lowercase: /[a-z]/.test(password),
+    numbers: /\d/.test(password),
+    special: SPECIAL_CHARACTERS.test(password),
+  }
+
+  Object.values(checks).forEach((check) => check && strength++)
+  return { strength: (strength / 5) * 100, checks }
+}
+
+// The first rule the password breaks, or null if it is strong enough
+export const validatePassword = (password: string) => {
+  const minLength = 8
+  const hasUpperCase = /[A-Z]/.test(password)
+  const hasLowerCase = /[a-z]/.test(password)
+  const hasNumbers = /\d/.test(password)
+  const hasSpecialChar = SPECIAL_CHARACTERS.test(password)
+
+  if (password.length < minLength) {
+    return "Password must be at least 8 characters long"
+  }
+  if (!hasUpperCase || !hasLowerCase) {
+    return "Password must contain both uppercase and lowercase letters"
+  }
+  if (!hasNumbers) {
+    return "Password must contain at least one number"
+  }
+  if (!hasSpecialChar) {
+    return "Password must contain at least one special character"
+  }
+  return null
+}
@@ -0,0 +1,95 @@
+// Instant-runoff counting for ranked posts. Each round counts every ballot for its highest-ranked
+// candidate still in the race; a candidate with a majority of those ballots wins, otherwise the
+// last-placed candidate is eliminated and their ballots move on to the next preference.
+
+export interface RunoffRound {
+  round: number
+  // Votes for each candidate still in the race this round
+  counts: Record<string, number>
+  // Ballots with no candidate left in the race
+  exhausted: number
+  // Eliminated at the end of this round (empty in the final round)
+  eliminated: string[]
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[]
+  winner: string | null
+  // Set when the count stopped at a tie no rule could break; the electoral committee decides it
+  tied: string[]
+}
+
+// The candidate(s) to eliminate after the latest round. A tie for last place is broken by the
+// earlier round in which the tied candidates differed, latest first. Candidates still tied go out
+// together when even their combined votes trail everyone else (the result can't change); otherwise
+// the one ranked on fewer ballots goes. Returns null when nothing separates them.
+function findLastPlace(continuing: string[], rounds: RunoffRound[], ballots: string[][]): string[] | null {
+  const current = rounds[rounds.length - 1].counts
+  const lowest = Math.min(...continuing.map((id) => current[id]))
+  let tied = continuing.filter((id) => current[id] === lowest)
+
+  for (let i = rounds.length - 2; i >= 0 && tied.length > 1; i--) {
+    const earlier = rounds[i].counts
+    const earlierLowest = Math.min(...tied.map((id) => earlier[id]))
+    tied = tied.filter((id) => earlier[id] === earlierLowest)
+  }
+  if (tied.length === 1) return tied
+
+  const others = continuing.filter((id) => !tied.includes(id))
+  const combined = tied.reduce((sum, id) => sum + current[id], 0)
+  if (others.length > 1 && combined < Math.min(...others.map((id) => current[id]))) return tied
+
+  const rankedOn = (id: string) => ballots.filter((ballot) => ballot.includes(id)).length
+  const fewest = Math.min(...tied.map(rankedOn))
+  tied = tied.filter((id) => rankedOn(id) === fewest)
+  return tied.length === 1 ? tied : null
+}
+
+export function runInstantRunoff(candidateIds: string[], ballots: string[][]): RunoffResult {
+  const rounds: RunoffRound[] = []
+  let continuing = [...candidateIds]
+
+  if (ballots.length === 0 || continuing.length === 0) {
+    return { rounds, winner: null, tied: [] }
+  }
+
+  while (true) {
+    const counts: Record<string, number> = Object.fromEntries(continuing.map((id) => [id, 0]))
+    let exhausted = 0
+
+    for (const ballot of ballots) {
+      const choice = ballot.find((id) => id in counts)
+      if (choice) counts[choice]++
+      else exhausted++
+    }
+
+    const round: RunoffRound = { round: rounds.length + 1, counts, exhausted, eliminated: [] }
+    rounds.push(round)
+
+    const active = ballots.length - exhausted
+    const leader = continuing.find((id) => counts[id] * 2 > active)
+    if (leader) return { rounds, winner: leader, tied: [] }
+    if (continuing.length === 1) return { rounds, winner: continuing[0], tied: [] }
+
+    const lastPlace = findLastPlace(continuing, rounds, ballots)
+    if (!lastPlace) {
+      const lowest = Math.min(...continuing.map((id) => counts[id]))
+      return { rounds, winner: null, tied: continuing.filter((id) => counts[id] === lowest) }
+    }
+
+    round.eliminated = lastPlace
+    continuing = continuing.filter((id) => !lastPlace.includes(id))
+  }
+}
+
+// One line for result sheets and banners, e.g. "Ada Obi elected in round 3 with 412 of 790 continuing ballots"
+export function describeRunoff(result: RunoffResult, nameOf: (candidateId: string) => string): string {
+  const finalRound = result.rounds[result.rounds.length - 1]
+  if (!finalRound) return "No ballots counted"
+
+  if (result.winner) {
+    const continuing = Object.values(finalRound.counts).reduce((sum, count) => sum + count, 0)
+    return `${nameOf(result.winner)} elected in round ${finalRound.round} with ${finalRound.counts[result.winner]} of ${continuing} continuing ballots`
+  }
+  return `Count stopped in round ${finalRound.round}: ${result.tied.map(nameOf).join(" and ")} are tied and must be separated by the electoral committee`
+}
@@ -0,0 +1,76 @@
+// Server-side receipt creation and lookups for /api/receipts and /api/posts/[id]/receipts
+import { createHash, randomBytes, randomUUID } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { areResultsVisible } from "./elections"
+import {
+  RECEIPT_PAGE_SIZE,
+  isValidReceipt,
+  normalizeReceipt,
+  type ReceiptLookup,
+  type ReceiptPage,
+} from "./receipts"
+import { ApiError } from "./api"
+
+export function parseReceipt(value: string): string {
+  const receipt = normalizeReceipt(value)
+  if (!isValidReceipt(receipt)) {
+    throw new ApiError("INVALID_REQUEST", "That doesn't look like a receipt code. Check it and try again.")
+  }
+  return receipt
+}
+
+// An id for a new ballot and its receipt. The nonce is never stored, so the receipt can't be
+// recomputed from the ballot id
+export function createBallotReceipt(): { ballotId: string; receipt: string } {
+  const ballotId = randomUUID()
+  const nonce = randomBytes(32).toString("hex")
+  const receipt = createHash("sha256").update(`${ballotId}:${nonce}`).digest("hex")
+  return { ballotId, receipt }
+}
+
+export async function findReceipt(supabase: SupabaseClient, receipt: string): Promise<ReceiptLookup> {
+  const { data, error } = await supabase.rpc("find_ballot_receipt", { p_receipt: receipt }).maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new ApiError("NOT_FOUND", "No ballot has this receipt code.")
+
+  const row = data as Omit<ReceiptLookup, "receipt">
+  return {
+    ...row,
+    receipt,
+    // Counts come back from PostgREST as strings
+    ballots: row.ballots === null ? null : Number(row.ballots),
+    list_position: row.list_position === null ? null : Number(row.list_position),
+  }
+}
+
+export function parseReceiptPage(value: string | null): number {
+  const page = Number(value ?? 0)
+  if (!Number.isInteger(page) || page < 0) throw new ApiError("INVALID_REQUEST", "A valid page is required")
+  return page
+}
+
+export async function listReceipts(supabase: SupabaseClient, postId: string, page: number): Promise<ReceiptPage> {
+  const { data: post, error: postError } = await supabase
+    .from("posts")
+    .select("id, elections (*)")
+    .eq("id", postId)
+    .maybeSingle()
+
+  if (postError) throw postError
+  if (!post) throw new ApiError("NOT_FOUND", "Position not found")
+
+  const election: any = Array.isArray(post.elections) ? post.elections[0] : post.elections
+  if (!election || !areResultsVisible(election)) {
+    throw new ApiError("NOT_PUBLISHED", "The ballot list for this position is published with its results.")
+  }
+
+  const from = page * RECEIPT_PAGE_SIZE
+  const { data, error, count } = await supabase
+    .rpc("get_ballot_receipts", { p_post_id: postId }, { count: "exact" })
+    .order("receipt")
+    .range(from, from + RECEIPT_PAGE_SIZE - 1)
+
+  if (error) throw error
+  return { receipts: (data || []).map((row: { receipt: string }) => row.receipt), total: count || 0 }
+}
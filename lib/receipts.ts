@@ -0,0 +1,52 @@
+// Ballot receipts: shared types, formatting and the browser-side client for the public /verify page
+import { apiRequest } from "./api"
+
+// A receipt is the hex SHA-256 of the ballot id and a discarded nonce
+export const RECEIPT_LENGTH = 64
+
+// Receipts per page of a post's published list
+export const RECEIPT_PAGE_SIZE = 100
+
+export interface ReceiptLookup {
+  receipt: string
+  post_id: string
+  post_title: string
+  election_id: string
+  election_title: string
+  // Whether the post's receipt list is out yet; it is released with the results
+  published: boolean
+  // Once it is: whether this receipt is in it, how many it lists and this receipt's place in code order
+  listed: boolean
+  ballots: number | null
+  list_position: number | null
+}
+
+export interface ReceiptPage {
+  receipts: string[]
+  total: number
+}
+
+// Accepts a receipt as typed or pasted: any case, with spaces or dashes between groups
+export function normalizeReceipt(value: string): string {
+  return value.toLowerCase().replace(/[\s-]/g, "")
+}
+
+export function isValidReceipt(value: string): boolean {
+  return new RegExp(`^[0-9a-f]{${RECEIPT_LENGTH}}$`).test(value)
+}
+
+// Groups of eight so a receipt can be read out and compared by eye
+export function formatReceipt(receipt: string): string {
+  return receipt.match(/.{1,8}/g)?.join(" ") ?? receipt
+}
+
+export const receiptApi = {
+  find(receipt: string) {
+    return apiRequest<ReceiptLookup>(`/api/receipts/${encodeURIComponent(normalizeReceipt(receipt))}`)
+  },
+
+  // One page of the published receipt list for a post, in code order
+  list(postId: string, page = 0) {
+    return apiRequest<ReceiptPage>(`/api/posts/${postId}/receipts?page=${page}`)
+  },
+}
@@ -0,0 +1,134 @@
+// Server-side registration: creating the account in one unit, and completing it once the emailed
+// code has been checked. Runs with the service role client, so `user` must come from Supabase
+// (createUser or verifyOtp), never from the request body.
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { normalizeEmail, normalizeMatricNo } from "./voter-register"
+import { validatePassword } from "./password"
+import {
+  VERIFICATION_CODE_LENGTH,
+  RegistrationError,
+  type RegistrationErrorCode,
+  type RegistrationInput,
+} from "./registration"
+
+// Results of check_registration_eligibility() in scripts/voter-verification.sql
+const ELIGIBILITY_ERRORS: Record<string, RegistrationErrorCode> = {
+  not_on_register: "NOT_ELIGIBLE",
+  no_email_on_record: "NO_EMAIL_ON_RECORD",
+  email_mismatch: "EMAIL_MISMATCH",
+  already_registered: "ALREADY_REGISTERED",
+}
+
+export function parseRegistrationInput(body: any): RegistrationInput {
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : ""
+  const name = typeof body?.name === "string" ? body.name.trim() : ""
+  const matricNo = typeof body?.matric_no === "string" ? normalizeMatricNo(body.matric_no) : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+
+  if (!email || !name || !matricNo || !password) {
+    throw new RegistrationError("INVALID_REQUEST")
+  }
+
+  const passwordError = validatePassword(password)
+  if (passwordError) throw new RegistrationError("WEAK_PASSWORD", passwordError)
+
+  return { email, name, matric_no: matricNo, password }
+}
+
+export function parseVerificationInput(body: any): { email: string; code: string } {
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : ""
+  const code = typeof body?.code === "string" ? body.code.trim() : ""
+
+  if (!email || !new RegExp(`^\\d{${VERIFICATION_CODE_LENGTH}}$`).test(code)) {
+    throw new RegistrationError("INVALID_REQUEST")
+  }
+  return { email, code }
+}
+
+// Eligibility check, auth user and (unverified) profile as one unit: if the profile can't be
+// created the auth user is deleted again, so a failed registration leaves nothing behind
+export async function registerVoter(supabase: SupabaseClient, input: RegistrationInput): Promise<User> {
+  const { data: eligibility, error: eligibilityError } = await supabase.rpc("check_registration_eligibility", {
+    p_matric_no: input.matric_no,
+    p_email: input.email,
+  })
+
+  if (eligibilityError) throw eligibilityError
+  if (eligibility !== "eligible") {
+    throw new RegistrationError(ELIGIBILITY_ERRORS[eligibility] || "NOT_ELIGIBLE")
+  }
+
+  // The address is confirmed by the verification code, not Supabase's confirmation email
+  const { data, error: createError } = await supabase.auth.admin.createUser({
+    email: input.email,
+    password: input.password,
+    email_confirm: true,
+    user_metadata: { name: input.name, matric_no: input.matric_no },
+  })
+
+  if (createError) {
+    if (createError.code === "email_exists") throw new RegistrationError("EMAIL_TAKEN")
+    if (createError.code === "weak_password") throw new RegistrationError("WEAK_PASSWORD", createError.message)
+    throw createError
+  }
+
+  const user = data.user
+  const { error: profileError } = await supabase
+    .from("profiles")
+    .insert([{ id: user.id, email: input.email, name: input.name, matric_no: input.matric_no, role: "user" }])
+
+  if (profileError) {
+    const { error: rollbackError } = await supabase.auth.admin.deleteUser(user.id)
+    if (rollbackError) {
+      // Left for the account repair tool in the admin area to find
+      console.error(`Failed to roll back auth user ${user.id} after profile insert failed:`, rollbackError)
+    }
+
+    // matric_no is unique: another account got there between the eligibility check and the insert
+    if (profileError.code === "23505") throw new RegistrationError("ALREADY_REGISTERED")
+    throw profileError
+  }
+
+  return user
+}
+
+// Marks the voter's profile verified (creating it for accounts that predate server-side
+// registration), provided the email that just received the code is the one the register
+// holds for the matric number
+export async function completeVoterVerification(supabase: SupabaseClient, user: User) {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, matric_no, name")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  if (profileError) throw profileError
+
+  const matricNo = normalizeMatricNo(profile?.matric_no || user.user_metadata?.matric_no || "")
+  const name = profile?.name || user.user_metadata?.name
+
+  const { data: eligible, error: eligibleError } = await supabase
+    .from("eligible_voters")
+    .select("matric_no, email")
+    .eq("matric_no", matricNo)
+    .maybeSingle()
+
+  if (eligibleError) throw eligibleError
+  if (!eligible) throw new RegistrationError("NOT_ELIGIBLE")
+  if (!eligible.email || normalizeEmail(eligible.email) !== normalizeEmail(user.email || "")) {
+    throw new RegistrationError("EMAIL_MISMATCH")
+  }
+
+  const verifiedAt = new Date().toISOString()
+  const { error } = profile
+    ? await supabase.from("profiles").update({ verified_at: verifiedAt }).eq("id", user.id)
+    : await supabase
+        .from("profiles")
+        .insert([{ id: user.id, email: user.email, name, matric_no: matricNo, role: "user", verified_at: verifiedAt }])
+
+  if (error) {
+    // matric_no is unique: someone else already holds a profile for it
+    if (error.code === "23505") throw new RegistrationError("ALREADY_REGISTERED")
+    throw error
+  }
+}
@@ -0,0 +1,49 @@
+// Voter registration, done on the server in one unit by POST /api/registration, and the proof
+// that the voter owns their matric number: a 6-digit code emailed to the institutional address
+// on the register, checked by POST /api/registration/verify
+import { ApiError, apiRequest, type ApiErrorCode } from "./api"
+
+export const VERIFICATION_CODE_LENGTH = 6
+
+export interface RegistrationInput {
+  email: string
+  name: string
+  matric_no: string
+  password: string
+}
+
+export const REGISTRATION_ERROR_MESSAGES = {
+  INVALID_REQUEST: "Fill in your matric number, name, university email and password.",
+  WEAK_PASSWORD: "Choose a stronger password.",
+  INVALID_CODE: "That code is wrong or has expired. Check the latest email or send a new code.",
+  NOT_ELIGIBLE: "Matric number not found in eligible voters list",
+  NO_EMAIL_ON_RECORD:
+    "The university has no email on record for this matric number. Contact the electoral committee.",
+  EMAIL_MISMATCH: "Register with the university email on record for this matric number.",
+  EMAIL_TAKEN: "An account with this email already exists. Sign in instead.",
+  ALREADY_REGISTERED:
+    "Another account is already registered with this matric number. Contact the electoral committee.",
+  INTERNAL_ERROR: "An unexpected error occurred during registration.",
+} satisfies Partial<Record<ApiErrorCode, string>>
+
+export type RegistrationErrorCode = keyof typeof REGISTRATION_ERROR_MESSAGES
+
+// Raised by the server-side registration steps, with the message shown for each code
+export class RegistrationError extends ApiError<RegistrationErrorCode> {
+  constructor(code: RegistrationErrorCode, message?: string) {
+    super(code, message || REGISTRATION_ERROR_MESSAGES[code])
+    this.name = "RegistrationError"
+  }
+}
+
+export const registrationApi = {
+  // Creates the account and its (unverified) profile together and emails the first code
+  register(input: RegistrationInput) {
+    return apiRequest<{ email: string; code_sent: boolean }>("/api/registration", { method: "POST", body: input })
+  },
+
+  // Checks the code, signs the voter in and marks their profile verified
+  verify(email: string, code: string) {
+    return apiRequest<{ verified: true }>("/api/registration/verify", { method: "POST", body: { email, code } })
+  },
+}
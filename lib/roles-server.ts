@@ -0,0 +1,34 @@
+// Server-side role assignment for PUT /api/users/[id]/role
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { isUserRole, type StaffProfile, type UserRole } from "./roles"
+import { ApiError } from "./api"
+
+export function parseRoleInput(body: any): UserRole {
+  if (!isUserRole(body?.role)) {
+    throw new ApiError("INVALID_REQUEST", "A valid role is required")
+  }
+  return body.role
+}
+
+export async function setUserRole(
+  supabase: SupabaseClient,
+  actorId: string,
+  userId: string,
+  role: UserRole,
+): Promise<StaffProfile> {
+  // Stops the last super-admin from demoting themselves and locking everyone out of role management
+  if (actorId === userId) {
+    throw new ApiError("FORBIDDEN", "You cannot change your own role; ask another super-admin")
+  }
+
+  const { data: updated, error } = await supabase
+    .from("profiles")
+    .update({ role })
+    .eq("id", userId)
+    .select("id, email, name, matric_no, role")
+    .maybeSingle()
+
+  if (error) throw error
+  if (!updated) throw new ApiError("NOT_FOUND", "User not found")
+  return updated
+}
@@ -0,0 +1,80 @@
+// Roles, the admin permissions each one grants, and the browser-side client for role changes.
+// Keep ROLE_PERMISSIONS in step with has_permission() in scripts/admin-roles.sql.
+import { apiRequest } from "./api"
+
+export type AdminRole = "super_admin" | "electoral_officer" | "candidate_manager" | "observer"
+export type UserRole = "user" | AdminRole
+
+export type Permission =
+  | "view_monitoring"
+  | "view_reports"
+  | "manage_elections"
+  | "change_election_status"
+  | "manage_candidates"
+  | "manage_voters"
+  | "manage_roles"
+  | "view_audit_log"
+  | "manage_database"
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: "Voter",
+  super_admin: "Super Admin",
+  electoral_officer: "Electoral Officer",
+  candidate_manager: "Candidate Manager",
+  observer: "Observer",
+}
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  user: "Can vote; no access to the admin area",
+  super_admin: "Full access, including assigning roles",
+  electoral_officer: "Opens and closes elections and publishes results",
+  candidate_manager: "Adds, edits and removes candidates",
+  observer: "Sees monitoring and reports but changes nothing",
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  super_admin: [
+    "view_monitoring",
+    "view_reports",
+    "manage_elections",
+    "change_election_status",
+    "manage_candidates",
+    "manage_voters",
+    "manage_roles",
+    "view_audit_log",
+    "manage_database",
+  ],
+  electoral_officer: ["view_monitoring", "view_reports", "change_election_status"],
+  candidate_manager: ["manage_candidates"],
+  observer: ["view_monitoring", "view_reports"],
+}
+
+export const USER_ROLES = Object.keys(ROLE_LABELS) as UserRole[]
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as string[]).includes(value)
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Anyone with at least one admin permission may open /admin
+export function isStaffRole(role: string | null | undefined): role is AdminRole {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].length > 0
+}
+
+export interface StaffProfile {
+  id: string
+  email: string
+  name: string
+  matric_no: string | null
+  role: UserRole
+}
+
+export const roleApi = {
+  setRole(userId: string, role: UserRole) {
+    return apiRequest<StaffProfile>(`/api/users/${userId}/role`, { method: "PUT", body: { role } })
+  },
+}
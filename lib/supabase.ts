@@ -1,13 +1,16 @@
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import { createClient as createServerSideClient } from "@supabase/supabase-js" // Import for server-side client
+import { runInstantRunoff, type RunoffResult } from "./ranked-choice"
+import { getElectedCandidateIds, isReferendumApproved, type ReferendumResult } from "./elections"
 
 // Create Supabase client for client-side operations
 export const createClient = () => {
   return createClientComponentClient()
 }
 
-// Server-side client for API routes or Server Components (using service role key for elevated privileges)
-export const createServerClient = () => {
+// Server-side client for API routes or Server Components (using service role key for elevated privileges).
+// Pass getClientRequestHeaders() from a route so audit logging sees the browser's IP and user agent.
+export const createServerClient = (headers?: Record<string, string>) => {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
   const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
@@ -16,28 +19,95 @@ export const createServerClient = () => {
   }
 
   // Use createClient from @supabase/supabase-js for server-side with service role key
-  return createServerSideClient(supabaseUrl, supabaseServiceKey)
+  return createServerSideClient(supabaseUrl, supabaseServiceKey, headers ? { global: { headers } } : undefined)
+}
+
+// PostgREST returns at most 1000 rows a request, so reads that need every row go through here.
+// `page` must order on a unique column so no row lands in two pages.
+const PAGE_SIZE = 1000
+
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
 }
 
 // Database functions for persistent storage
 export const supabaseOperations = {
-  // Get all elections
+  // Get every published (non-draft, non-archived) election
   async getElections() {
     const supabase = createClient()
     const { data, error } = await supabase
       .from("elections")
       .select("*")
-      .eq("is_active", true)
+      .neq("status", "draft")
+      .is("archived_at", null)
+      .order("start_time", { ascending: false })
+
+    if (error) throw error
+    return data
+  },
+
+  // Get every election that has not been archived, active or not (for admin management)
+  async getAllElections() {
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from("elections")
+      .select("*")
+      .is("archived_at", null)
       .order("start_time", { ascending: false })
 
     if (error) throw error
     return data
   },
 
-  // Get posts for an election
+  // Get a single election by id
+  async getElection(electionId: string) {
+    const supabase = createClient()
+    const { data, error } = await supabase.from("elections").select("*").eq("id", electionId).maybeSingle()
+
+    if (error) throw error
+    return data
+  },
+
+  // Get an election's lifecycle history, newest first
+  async getElectionStatusChanges(electionId: string) {
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from("election_status_changes")
+      .select("*, profiles (name)")
+      .eq("election_id", electionId)
+      .order("created_at", { ascending: false })
+
+    if (error) throw error
+    return data
+  },
+
+  // Get posts for an election, in ballot order
   async getPosts(electionId: string) {
     const supabase = createClient()
-    const { data, error } = await supabase.from("posts").select("*").eq("election_id", electionId).order("title")
+    const { data, error } = await supabase
+      .from("posts")
+      .select("*")
+      .eq("election_id", electionId)
+      .order("position")
+      .order("title")
+
+    if (error) throw error
+    return data
+  },
+
+  // Get a single post with its election
+  async getPost(postId: string) {
+    const supabase = createClient()
+    const { data, error } = await supabase.from("posts").select("*, elections (*)").eq("id", postId).maybeSingle()
 
     if (error) throw error
     return data
@@ -83,77 +153,132 @@ export const supabaseOperations = {
     if (error) throw error
   },
 
-  // Submit vote
-  async submitVote(voteData: any) {
-    const supabase = createClient()
-    const { data, error } = await supabase.from("votes").insert([voteData]).select().single()
-
-    if (error) throw error
-    return data
-  },
-
-  // Get user votes
+  // Posts the user has voted on. Ballots aren't linked to voters, so this can't say how they voted
   async getUserVotes(userId: string) {
     const supabase = createClient()
-    const { data, error } = await supabase.from("votes").select("post_id, candidate_id").eq("user_id", userId)
+    const { data, error } = await supabase
+      .from("ballot_participation")
+      .select("post_id, created_at")
+      .eq("user_id", userId)
 
     if (error) throw error
     return data
   },
 
-  // Get vote results for a post
-  async getPostResults(postId: string) {
+  // Get per-candidate vote counts for every post in an election, keyed by post id. total_votes is
+  // the ballots cast, so on multi-choice posts percentages are the share of voters choosing each
+  // candidate. Ranked posts also carry their instant-runoff count; their vote_count is first
+  // preferences. Each candidate is marked elected (or leading, while voting is open).
+  async getElectionResults(electionId: string) {
     const supabase = createClient()
-    const { data: votes, error: votesError } = await supabase.from("votes").select("candidate_id").eq("post_id", postId)
+    // Every ranked ballot, or the runoff would be counted over the first page only. Ballots with the
+    // same ranking are interchangeable, so ordering on the whole row pages them safely.
+    const [{ data, error }, ballots] = await Promise.all([
+      supabase.rpc("get_election_tally", { p_election_id: electionId }),
+      fetchAllRows<{ post_id: string; ranking: string[] }>((from, to) =>
+        supabase
+          .rpc("get_ranked_ballots", { p_election_id: electionId })
+          .order("post_id")
+          .order("ranking")
+          .range(from, to),
+      ),
+    ])
 
-    if (votesError) throw votesError
-
-    const { data: candidates, error: candidatesError } = await supabase
-      .from("candidates")
-      .select("id, name, department, image_url, image_public_id")
-      .eq("post_id", postId)
+    if (error) throw error
 
-    if (candidatesError) throw candidatesError
+    const results: Record<
+      string,
+      {
+        candidates: any[]
+        total_votes: number
+        seats: number
+        // Ballots for no candidate; included in total_votes
+        abstentions: number
+        last_vote_at: string | null
+        runoff?: RunoffResult
+        referendum?: ReferendumResult
+      }
+    > = {}
+    for (const {
+      post_id,
+      candidate_id,
+      vote_count,
+      last_vote_at,
+      seats,
+      ballot_count,
+      rejection_count,
+      approval_threshold,
+      abstain_count,
+      ...candidate
+    } of data || []) {
+      if (!results[post_id]) {
+        results[post_id] = {
+          candidates: [],
+          total_votes: Number(ballot_count),
+          seats,
+          abstentions: Number(abstain_count),
+          last_vote_at: null,
+        }
+      }
+      // Only set for a referendum, which has a single candidate row
+      if (approval_threshold !== null) {
+        const yes = Number(vote_count)
+        const no = Number(rejection_count)
+        const threshold = Number(approval_threshold)
+        results[post_id].referendum = { yes, no, threshold, approved: isReferendumApproved(yes, no, threshold) }
+      }
 
-    const resultsMap = new Map<string, { count: number; candidate: any }>()
-    candidates?.forEach((c) => {
-      resultsMap.set(c.id, { count: 0, candidate: c })
-    })
+      const result = results[post_id]
+      result.candidates.push({ ...candidate, id: candidate_id, post_id, vote_count: Number(vote_count) })
+      if (last_vote_at && (!result.last_vote_at || Date.parse(last_vote_at) > Date.parse(result.last_vote_at))) {
+        result.last_vote_at = last_vote_at
+      }
+    }
 
-    votes?.forEach((vote) => {
-      if (resultsMap.has(vote.candidate_id)) {
-        resultsMap.get(vote.candidate_id)!.count++
+    const rankings: Record<string, string[][]> = {}
+    for (const { post_id, ranking } of ballots) {
+      if (!rankings[post_id]) rankings[post_id] = []
+      rankings[post_id].push(ranking)
+    }
+    for (const [postId, postBallots] of Object.entries(rankings)) {
+      const result = results[postId]
+      if (result) {
+        result.runoff = runInstantRunoff(result.candidates.map((c) => c.id), postBallots)
       }
-    })
+    }
 
-    const totalVotes = votes?.length || 0
-    const finalResults = Array.from(resultsMap.values())
-      .map((item) => ({
-        ...item.candidate,
-        vote_count: item.count,
-        percentage: totalVotes > 0 ? (item.count / totalVotes) * 100 : 0,
+    Object.values(results).forEach((result) => {
+      const elected = result.referendum
+        ? result.candidates.filter(() => result.referendum!.approved).map((c) => c.id)
+        : result.runoff
+          ? [result.runoff.winner].filter(Boolean)
+          : getElectedCandidateIds(result.candidates, result.seats)
+
+      result.candidates = result.candidates.map((c) => ({
+        ...c,
+        percentage: result.total_votes > 0 ? (c.vote_count / result.total_votes) * 100 : 0,
+        elected: elected.includes(c.id),
       }))
-      .sort((a, b) => b.vote_count - a.vote_count)
+    })
 
-    return { candidates: finalResults, total_votes: totalVotes }
+    return results
   },
 
   // Get eligible voters
   async getEligibleVoters() {
     const supabase = createClient()
-    const { data, error } = await supabase.from("eligible_voters").select("*").order("name")
-
-    if (error) throw error
-    return data
+    return fetchAllRows((from, to) =>
+      supabase.from("eligible_voters").select("*").order("matric_no").order("id").range(from, to),
+    )
   },
 
-  // Register user (this function is now primarily for inserting into 'profiles' table after Supabase Auth signUp)
-  async registerUser(userData: { email: string; name: string; matric_no: string; role: string }) {
+  // Count eligible voters (for turnout figures)
+  async getEligibleVoterCount() {
     const supabase = createClient()
-    const { data, error } = await supabase.from("profiles").insert([userData]).select().single()
+    const { count, error } = await supabase.from("eligible_voters").select("id", { count: "exact", head: true })
 
     if (error) throw error
-    return data
+    return count || 0
   },
 
   // Get user by email (from profiles table)
@@ -172,18 +297,61 @@ export const supabaseOperations = {
   // Get all users (profiles) - for admin view
   async getAllUsers() {
     const supabase = createClient()
-    const { data, error } = await supabase.from("profiles").select("*").order("name")
+    return fetchAllRows((from, to) => supabase.from("profiles").select("*").order("name").order("id").range(from, to))
+  },
 
-    if (error) throw error
-    return data
+  // Get votes cast since a point in time (for admin vote-rate monitoring)
+  async getRecentVotes(postIds: string[], since: string) {
+    const supabase = createClient()
+    if (postIds.length === 0) return []
+
+    return fetchAllRows((from, to) =>
+      supabase
+        .from("ballot_participation")
+        .select("post_id, created_at")
+        .in("post_id", postIds)
+        .gte("created_at", since)
+        .order("created_at")
+        .order("id")
+        .range(from, to),
+    )
   },
 
-  // Get all votes (for admin monitoring)
-  async getAllVotes() {
+  // Get audit log entries, newest first, narrowed by any of the given filters
+  async getAuditLogs(
+    filters: { actorId?: string; tableName?: string; action?: string; from?: string; to?: string } = {},
+    page = 0,
+    pageSize = 50,
+  ) {
     const supabase = createClient()
-    const { data, error } = await supabase.from("votes").select("*")
+    let query = supabase
+      .from("audit_logs")
+      .select("*, profiles (name, email)", { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(page * pageSize, page * pageSize + pageSize - 1)
+
+    if (filters.actorId) query = query.eq("user_id", filters.actorId)
+    if (filters.tableName) query = query.eq("table_name", filters.tableName)
+    if (filters.action) query = query.eq("action", filters.action)
+    if (filters.from) query = query.gte("created_at", filters.from)
+    if (filters.to) query = query.lt("created_at", filters.to)
+
+    const { data, error, count } = await query
 
     if (error) throw error
-    return data
+    return { entries: data || [], total: count || 0 }
+  },
+
+  // Who has voted on which post (for turnout); ballots themselves are only read through the tally
+  async getParticipation() {
+    const supabase = createClient()
+    return fetchAllRows((from, to) =>
+      supabase
+        .from("ballot_participation")
+        .select("user_id, post_id, created_at")
+        .order("user_id")
+        .order("post_id")
+        .range(from, to),
+    )
   },
 }
@@ -0,0 +1,34 @@
+// lib/supabase/server.ts
+import { cookies, headers } from "next/headers"
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+
+// The browser's IP and user agent, forwarded so audit_logs records them rather than this server's.
+// The database only trusts these from the service role client (createServerClient).
+export function getClientRequestHeaders(): Record<string, string> {
+  const requestHeaders = headers()
+  // The rightmost address is the one the platform proxy appended; the rest are whatever the client sent
+  const forwarded = requestHeaders.get("x-forwarded-for")?.split(",").pop()?.trim() || requestHeaders.get("x-real-ip")
+  const userAgent = requestHeaders.get("user-agent")
+
+  return {
+    ...(forwarded ? { "x-client-ip": forwarded } : {}),
+    ...(userAgent ? { "x-client-user-agent": userAgent } : {}),
+  }
+}
+
+// Client bound to the caller's auth cookies, for use inside route handlers
+export const createRouteClient = () => {
+  return createRouteHandlerClient({ cookies })
+}
+
+// Resolve the signed-in user from the request session (never from the request body)
+export async function getSessionUser() {
+  const supabase = createRouteClient()
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+
+  if (error || !user) return null
+  return user
+}
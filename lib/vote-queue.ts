@@ -0,0 +1,207 @@
+// Votes waiting to reach the server, kept in IndexedDB so a vote or whole ballot cast on a dropped
+// connection survives a reload and is sent once the connection returns. Each keeps the request key
+// it was first sent with, so however many times it is retried the server records it once.
+// Receipts for everything sent from here are kept too, so one confirmed in the background can
+// still be checked on /verify.
+import { submitBallot, submitVote } from "./data-cache"
+import {
+  isRetryableVoteError,
+  isSignedOutVoteError,
+  rememberVote,
+  type CastBallotInput,
+  type CastVoteInput,
+  type CastVoteResult,
+} from "./votes"
+
+// pending: saved on this device, not yet accepted; signed_out: saved, but the server needs the voter
+// to sign in again first; sent: on its way; confirmed: recorded by the server
+export type VoteDeliveryStatus = "pending" | "signed_out" | "sent" | "confirmed"
+
+export const VOTE_DELIVERY_LABELS: Record<VoteDeliveryStatus, string> = {
+  pending: "Pending: saved on this device",
+  signed_out: "Saved on this device: sign in to send",
+  sent: "Sent: waiting for the server",
+  confirmed: "Confirmed: recorded by the server",
+}
+
+interface QueuedSubmission {
+  request_key: string
+  // Only sent while this voter is signed in, since the server takes the voter from the session
+  user_id: string
+  queued_at: string
+}
+
+export interface QueuedVote extends QueuedSubmission {
+  kind: "vote"
+  post_title: string
+  input: CastVoteInput
+}
+
+// A whole ballot goes through the server together, so it is queued and retried together too
+export interface QueuedBallot extends QueuedSubmission {
+  kind: "ballot"
+  election_title: string
+  post_titles: Record<string, string>
+  input: CastBallotInput
+}
+
+export type QueuedEntry = QueuedVote | QueuedBallot
+
+export interface SavedReceipt {
+  receipt: string
+  user_id: string
+  post_title: string
+  voted_at: string
+}
+
+const DB_NAME = "voting-app"
+const DB_VERSION = 2
+const QUEUE_STORE = "pendingVotes"
+const RECEIPT_STORE = "savedReceipts"
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: "request_key" })
+      if (!db.objectStoreNames.contains(RECEIPT_STORE)) db.createObjectStore(RECEIPT_STORE, { keyPath: "receipt" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openQueue()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Without storage (e.g. some private windows) the vote is still sent, just not kept across reloads
+async function enqueue<T extends QueuedEntry>(entry: T): Promise<T> {
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.put(entry)).catch((error) =>
+    console.error("Could not save the vote on this device:", error),
+  )
+  return entry
+}
+
+export function enqueueVote(userId: string, postTitle: string, input: CastVoteInput): Promise<QueuedVote> {
+  return enqueue({
+    kind: "vote",
+    request_key: crypto.randomUUID(),
+    user_id: userId,
+    post_title: postTitle,
+    input,
+    queued_at: new Date().toISOString(),
+  })
+}
+
+export function enqueueBallot(
+  userId: string,
+  electionTitle: string,
+  postTitles: Record<string, string>,
+  input: CastBallotInput,
+): Promise<QueuedBallot> {
+  return enqueue({
+    kind: "ballot",
+    request_key: crypto.randomUUID(),
+    user_id: userId,
+    election_title: electionTitle,
+    post_titles: postTitles,
+    input,
+    queued_at: new Date().toISOString(),
+  })
+}
+
+export async function getQueuedEntries(userId: string): Promise<QueuedEntry[]> {
+  const entries = await withStore<QueuedEntry[]>(QUEUE_STORE, "readonly", (store) => store.getAll())
+  return entries.filter((entry) => entry.user_id === userId)
+}
+
+async function removeQueuedEntry(requestKey: string) {
+  await withStore(QUEUE_STORE, "readwrite", (store) => store.delete(requestKey)).catch((error) =>
+    console.error("Could not remove the vote from this device:", error),
+  )
+}
+
+export function describeQueuedEntry(entry: QueuedEntry): string {
+  return entry.kind === "vote" ? entry.post_title : `your ${entry.election_title} ballot`
+}
+
+function postTitle(entry: QueuedEntry, postId: string): string {
+  return (entry.kind === "vote" ? entry.post_title : entry.post_titles[postId]) || "Position"
+}
+
+async function saveReceipts(entry: QueuedEntry, results: CastVoteResult[]) {
+  for (const result of results) {
+    const saved: SavedReceipt = {
+      receipt: result.receipt,
+      user_id: entry.user_id,
+      post_title: postTitle(entry, result.post_id),
+      voted_at: result.created_at,
+    }
+    await withStore(RECEIPT_STORE, "readwrite", (store) => store.put(saved)).catch((error) =>
+      console.error("Could not save the receipt on this device:", error),
+    )
+  }
+}
+
+// Receipts for this voter's ballots sent from this device, newest first
+export async function getSavedReceipts(userId: string): Promise<SavedReceipt[]> {
+  const receipts = await withStore<SavedReceipt[]>(RECEIPT_STORE, "readonly", (store) => store.getAll())
+  return receipts
+    .filter((receipt) => receipt.user_id === userId)
+    .sort((a, b) => Date.parse(b.voted_at) - Date.parse(a.voted_at))
+}
+
+// Sends in progress by request key, so the page a vote was cast on and the background sync
+// share one attempt rather than racing each other
+const sending = new Map<string, Promise<CastVoteResult[]>>()
+
+// Sends a queued vote or ballot. It leaves the queue once the server confirms it or rejects it
+// outright; after a network or unexpected server failure, or a session that has ended, it stays
+// queued for the next try (VoteQueueSync sends it again once the voter signs back in). What
+// this device remembers voting is what was sent, not whatever the page shows by then.
+export function sendQueued(entry: QueuedEntry): Promise<CastVoteResult[]> {
+  const inFlight = sending.get(entry.request_key)
+  if (inFlight) return inFlight
+
+  const attempt = (async () => {
+    try {
+      const results =
+        entry.kind === "vote"
+          ? [await submitVote(entry.input, entry.request_key)]
+          : await submitBallot(entry.input, entry.request_key)
+      const votes = entry.kind === "vote" ? [entry.input] : entry.input.votes
+      votes.forEach(rememberVote)
+      await saveReceipts(entry, results)
+      await removeQueuedEntry(entry.request_key)
+      return results
+    } catch (error) {
+      if (!isRetryableVoteError(error) && !isSignedOutVoteError(error)) await removeQueuedEntry(entry.request_key)
+      throw error
+    } finally {
+      sending.delete(entry.request_key)
+    }
+  })()
+
+  sending.set(entry.request_key, attempt)
+  return attempt
+}
+
+export async function sendQueuedVote(vote: QueuedVote): Promise<CastVoteResult> {
+  const [result] = await sendQueued(vote)
+  return result
+}
@@ -0,0 +1,66 @@
+// Idempotency keys for POST /api/votes and /api/votes/ballot (see scripts/vote-requests.sql).
+// A stored request holds the key's hash and the submission's results sealed with AES-256-GCM under
+// a second hash of the key, so only a client holding the key can read which ballots it cast.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { VoteError, type CastVoteResult } from "./votes"
+
+// What is sealed: everything but the time, which comes from the voter's participation row on replay
+export type SealedVote = Omit<CastVoteResult, "created_at">
+
+const REQUEST_KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/
+
+const derive = (purpose: string, key: string) => createHash("sha256").update(`${purpose}:${key}`).digest()
+
+export function parseRequestKey(value: string | null): string | undefined {
+  if (value === null) return undefined
+  if (!REQUEST_KEY_PATTERN.test(value)) throw new VoteError("INVALID_REQUEST", "The request key is not valid.")
+  return value
+}
+
+export function requestKeyHash(key: string): string {
+  return derive("request", key).toString("hex")
+}
+
+export function sealResult(key: string, votes: SealedVote[]): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", derive("seal", key), iv)
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(votes), "utf8"), cipher.final()])
+  return [iv, cipher.getAuthTag(), sealed].map((part) => part.toString("base64")).join(".")
+}
+
+function openResult(key: string, sealedResult: string): SealedVote[] {
+  const [iv, tag, sealed] = sealedResult.split(".").map((part) => Buffer.from(part, "base64"))
+  const decipher = createDecipheriv("aes-256-gcm", derive("seal", key), iv)
+  decipher.setAuthTag(tag)
+  return JSON.parse(Buffer.concat([decipher.update(sealed), decipher.final()]).toString("utf8"))
+}
+
+// The results of an earlier submission made with this key, or null if none succeeded
+export async function findRequest(
+  supabase: SupabaseClient,
+  voterId: string,
+  key: string,
+): Promise<CastVoteResult[] | null> {
+  const { data: request, error } = await supabase
+    .from("vote_requests")
+    .select("user_id, sealed_result")
+    .eq("key_hash", requestKeyHash(key))
+    .maybeSingle()
+
+  if (error) throw error
+  if (!request) return null
+  if (request.user_id !== voterId) throw new VoteError("INVALID_REQUEST", "The request key has already been used.")
+
+  const votes = openResult(key, request.sealed_result)
+  const { data: participation, error: participationError } = await supabase
+    .from("ballot_participation")
+    .select("post_id, created_at")
+    .eq("user_id", voterId)
+    .in("post_id", votes.map((vote) => vote.post_id))
+
+  if (participationError) throw participationError
+
+  const votedAt = new Map((participation || []).map((row) => [row.post_id, row.created_at]))
+  return votes.map((vote) => ({ ...vote, created_at: votedAt.get(vote.post_id) }))
+}
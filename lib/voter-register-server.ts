@@ -0,0 +1,29 @@
+// Server-side register import. Runs with the service role client, so the route must requirePermission("manage_voters") first.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { fetchAllRows } from "./supabase"
+import type { RegisterImportSummary, RegisterRow } from "./voter-register"
+
+// The whole register, which the import preview diffs against
+export function getRegister(supabase: SupabaseClient): Promise<RegisterRow[]> {
+  return fetchAllRows<RegisterRow>((from, to) =>
+    supabase.from("eligible_voters").select("matric_no, name, department, email").order("matric_no").range(from, to),
+  )
+}
+
+// Replace the register with `rows` in one transaction; see apply_eligible_voter_import() in SQL.
+// keepEmails leaves existing voters' emails alone, for a CSV without an email column.
+export async function applyRegisterImport(
+  supabase: SupabaseClient,
+  actorId: string,
+  rows: RegisterRow[],
+  keepEmails = false,
+): Promise<RegisterImportSummary> {
+  const { data, error } = await supabase.rpc("apply_eligible_voter_import", {
+    p_rows: rows,
+    p_actor: actorId,
+    p_keep_emails: keepEmails,
+  })
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,194 @@
+// Eligible voter register import: CSV parsing, diffing against the current register,
+// and the browser-side client for POST /api/eligible-voters/import
+import { ApiError, apiRequest } from "./api"
+
+export interface RegisterRow {
+  matric_no: string
+  name: string
+  department: string | null
+  // Institutional email the registration code is sent to; voters without one can't register
+  email: string | null
+}
+
+export interface RegisterIssue {
+  line: number
+  matric_no: string
+  reason: string
+}
+
+export interface RegisterDiff {
+  add: RegisterRow[]
+  update: { before: RegisterRow; after: RegisterRow }[]
+  remove: RegisterRow[]
+  unchanged: number
+  issues: RegisterIssue[]
+  // The CSV has no email column, so everyone already on the register keeps their email
+  emails_kept: boolean
+}
+
+export interface RegisterImportSummary {
+  added: number
+  updated: number
+  removed: number
+  total: number
+}
+
+// Session year / faculty code / serial, e.g. 2021/CS/001
+export const MATRIC_NO_PATTERN = /^\d{4}\/[A-Z]{2,5}\/\d{3,}$/
+
+// Only matric_no and name are required
+export const REGISTER_COLUMNS = ["matric_no", "name", "department", "email"] as const
+const REQUIRED_COLUMNS = ["matric_no", "name"]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Matric numbers are compared trimmed and upper-cased everywhere (see authService.register)
+export const normalizeMatricNo = (matricNo: string) => matricNo.trim().toUpperCase()
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// Split CSV text into records, honouring quoted fields with embedded commas, quotes and newlines
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+// Parse a register CSV with a matric_no,name,department,email header (any column order).
+// hasEmails is false for registers in the older matric_no,name,department layout.
+export function parseRegisterCsv(text: string): { rows: RegisterRow[]; issues: RegisterIssue[]; hasEmails: boolean } {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ""))
+  const header = (records[0] || []).map((column) => column.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column))
+
+  if (missing.length > 0) {
+    throw new ApiError("INVALID_REQUEST", `The CSV header is missing: ${missing.join(", ")}`)
+  }
+
+  const index = Object.fromEntries(REGISTER_COLUMNS.map((column) => [column, header.indexOf(column)]))
+  const rows: RegisterRow[] = []
+  const issues: RegisterIssue[] = []
+  const firstSeen = new Map<string, number>()
+  const emailFirstSeen = new Map<string, number>()
+
+  records.slice(1).forEach((record, i) => {
+    const line = i + 2
+    if (record.every((value) => value.trim() === "")) return
+
+    const matricNo = normalizeMatricNo(record[index.matric_no] || "")
+    const name = (record[index.name] || "").trim()
+    const department = index.department >= 0 ? (record[index.department] || "").trim() || null : null
+    const email = index.email >= 0 ? normalizeEmail(record[index.email] || "") || null : null
+
+    if (!MATRIC_NO_PATTERN.test(matricNo)) {
+      issues.push({ line, matric_no: matricNo, reason: "Malformed matric number" })
+      return
+    }
+    if (!name) {
+      issues.push({ line, matric_no: matricNo, reason: "Name is required" })
+      return
+    }
+    if (email && !EMAIL_PATTERN.test(email)) {
+      issues.push({ line, matric_no: matricNo, reason: "Malformed email address" })
+      return
+    }
+    if (firstSeen.has(matricNo)) {
+      issues.push({ line, matric_no: matricNo, reason: `Duplicate of line ${firstSeen.get(matricNo)}` })
+      return
+    }
+    if (email && emailFirstSeen.has(email)) {
+      issues.push({ line, matric_no: matricNo, reason: `Email already used on line ${emailFirstSeen.get(email)}` })
+      return
+    }
+
+    firstSeen.set(matricNo, line)
+    if (email) emailFirstSeen.set(email, line)
+    rows.push({ matric_no: matricNo, name, department, email })
+  })
+
+  return { rows, issues, hasEmails: index.email >= 0 }
+}
+
+// What applying `rows` would do to the `current` register; rows missing from the CSV are removed.
+// With keepEmails (no email column) existing voters keep the email they have.
+export function diffRegister(
+  current: RegisterRow[],
+  rows: RegisterRow[],
+  issues: RegisterIssue[] = [],
+  keepEmails = false,
+): RegisterDiff {
+  const existing = new Map(current.map((voter) => [normalizeMatricNo(voter.matric_no), voter]))
+  const incoming = new Set(rows.map((row) => row.matric_no))
+  const diff: RegisterDiff = { add: [], update: [], remove: [], unchanged: 0, issues, emails_kept: keepEmails }
+
+  for (const incomingRow of rows) {
+    const before = existing.get(incomingRow.matric_no)
+    if (!before) {
+      diff.add.push(incomingRow)
+      continue
+    }
+
+    const row = keepEmails ? { ...incomingRow, email: before.email || null } : incomingRow
+    if (
+      before.name !== row.name ||
+      (before.department || null) !== row.department ||
+      (before.email || null) !== row.email
+    ) {
+      diff.update.push({ before, after: row })
+    } else {
+      diff.unchanged++
+    }
+  }
+
+  for (const [matricNo, voter] of existing) {
+    if (!incoming.has(matricNo)) diff.remove.push(voter)
+  }
+
+  return diff
+}
+
+export const voterRegisterApi = {
+  previewImport(csv: string) {
+    return apiRequest<RegisterDiff>("/api/eligible-voters/import", { method: "POST", body: { csv, dry_run: true } })
+  },
+
+  applyImport(csv: string) {
+    return apiRequest<RegisterImportSummary>("/api/eligible-voters/import", { method: "POST", body: { csv } })
+  },
+}
@@ -0,0 +1,276 @@
+// Server-side vote recording. Every check here runs with the service role client,
+// so callers must resolve voterId from the session before calling in. The voter is recorded
+// apart from their ballot (see scripts/secret-ballot.sql).
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  VoteError,
+  type VoteErrorCode,
+  type CastBallotInput,
+  type CastVoteInput,
+  type CastVoteResult,
+} from "./votes"
+import { getElectionStatus, isReferendum, type Post } from "./elections"
+import { createBallotReceipt } from "./receipts-server"
+import { findRequest, requestKeyHash, sealResult, type SealedVote } from "./vote-requests-server"
+
+// A list of distinct candidate ids starting with candidate_id, or undefined when the body has none
+function parseCandidateList(value: unknown, candidateId: string, duplicateCode: VoteErrorCode) {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.length === 0 || value.some((id) => typeof id !== "string")) {
+    throw new VoteError("INVALID_REQUEST")
+  }
+  if (new Set(value).size !== value.length || value[0] !== candidateId) {
+    throw new VoteError(duplicateCode)
+  }
+  return value as string[]
+}
+
+export function parseCastVoteInput(body: any): CastVoteInput {
+  if (!body || typeof body.post_id !== "string") throw new VoteError("INVALID_REQUEST")
+
+  // An abstention names no candidate and carries nothing else
+  if (body.candidate_id === null) {
+    if (body.ranking !== undefined || body.selections !== undefined || body.approve !== undefined) {
+      throw new VoteError("INVALID_REQUEST")
+    }
+    return { post_id: body.post_id, candidate_id: null }
+  }
+  if (typeof body.candidate_id !== "string") throw new VoteError("INVALID_REQUEST")
+
+  const ranking = parseCandidateList(body.ranking, body.candidate_id, "INVALID_RANKING")
+  const selections = parseCandidateList(body.selections, body.candidate_id, "INVALID_REQUEST")
+  if (ranking && selections) throw new VoteError("INVALID_REQUEST")
+  if (body.approve !== undefined && typeof body.approve !== "boolean") throw new VoteError("INVALID_REQUEST")
+
+  return {
+    post_id: body.post_id,
+    candidate_id: body.candidate_id,
+    ...(ranking ? { ranking } : {}),
+    ...(selections ? { selections } : {}),
+    ...(typeof body.approve === "boolean" ? { approve: body.approve } : {}),
+  }
+}
+
+type BallotPost = Pick<Post, "voting_method" | "max_selections" | "allow_abstain">
+type BallotColumns = { ranking: string[] | null; selections: string[] | null; approval: boolean | null }
+
+function abstention(post: BallotPost): BallotColumns {
+  if (!post.allow_abstain) throw new VoteError("ABSTAIN_NOT_ALLOWED")
+  return { ranking: null, selections: null, approval: null }
+}
+
+// The ranking, selections or Yes/No that go with a vote for candidateId, once checked against the post
+async function candidateBallot(
+  supabase: SupabaseClient,
+  post: BallotPost,
+  candidateId: string,
+  input: CastVoteInput,
+): Promise<BallotColumns> {
+  // Everyone standing for the post; a post with only one is voted on as a referendum
+  const { data: candidates, error: candidateError } = await supabase
+    .from("candidates")
+    .select("id")
+    .eq("post_id", input.post_id)
+
+  if (candidateError) throw candidateError
+  const standing = new Set((candidates || []).map((candidate) => candidate.id))
+
+  // A referendum takes Yes or No on its candidate. A ranked post takes a ranking, or a single choice as
+  // a one-candidate ranking. Other posts take up to max_selections choices, stored as selections when
+  // more than one is allowed.
+  const referendum = isReferendum(post, standing.size)
+  if (referendum && input.approve === undefined) throw new VoteError("APPROVAL_REQUIRED")
+  if (!referendum && input.approve !== undefined) throw new VoteError("INVALID_REQUEST")
+  const approval = referendum ? input.approve! : null
+
+  const isRanked = post.voting_method === "ranked" && !referendum
+  const ranking = isRanked ? input.ranking || [candidateId] : null
+  if (!isRanked && input.ranking && input.ranking.length > 1) throw new VoteError("INVALID_RANKING")
+
+  const maxSelections = referendum ? 1 : post.max_selections
+  const selections = !isRanked && maxSelections > 1 ? input.selections || [candidateId] : null
+  if ((selections || input.selections || []).length > maxSelections) {
+    throw new VoteError("TOO_MANY_SELECTIONS")
+  }
+
+  // Every candidate on the ballot must be standing for this post
+  const candidateIds = ranking || selections || [candidateId]
+  if (!candidateIds.every((id) => standing.has(id))) throw new VoteError("CANDIDATE_NOT_IN_POST")
+
+  return { ranking, selections, approval }
+}
+
+type CheckedVote = Pick<CastVoteInput, "post_id" | "candidate_id"> & BallotColumns
+
+// The post must exist, belong to electionId when one is given, be open for voting and accept the ballot
+async function checkVote(supabase: SupabaseClient, input: CastVoteInput, electionId?: string): Promise<CheckedVote> {
+  // The post and its election window
+  const { data: post, error: postError } = await supabase
+    .from("posts")
+    .select("id, voting_method, max_selections, allow_abstain, elections (id, status, start_time, end_time)")
+    .eq("id", input.post_id)
+    .maybeSingle()
+
+  if (postError) throw postError
+  if (!post) throw new VoteError("POST_NOT_FOUND")
+
+  const election: any = Array.isArray(post.elections) ? post.elections[0] : post.elections
+  if (!election) throw new VoteError("ELECTION_INACTIVE")
+  if (electionId && election.id !== electionId) throw new VoteError("POST_NOT_FOUND")
+
+  switch (getElectionStatus(election)) {
+    case "draft":
+      throw new VoteError("ELECTION_INACTIVE")
+    case "scheduled":
+      throw new VoteError("ELECTION_NOT_STARTED")
+    case "closed":
+    case "certified":
+      throw new VoteError("ELECTION_ENDED")
+  }
+
+  const ballot =
+    input.candidate_id === null
+      ? abstention(post)
+      : await candidateBallot(supabase, post, input.candidate_id, input)
+
+  return { post_id: input.post_id, candidate_id: input.candidate_id, ...ballot }
+}
+
+// The voter must have proved they own their matric number, which must still be on the register
+async function checkVoter(supabase: SupabaseClient, voterId: string) {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, matric_no, verified_at")
+    .eq("id", voterId)
+    .maybeSingle()
+
+  if (profileError) throw profileError
+  if (!profile) throw new VoteError("PROFILE_NOT_FOUND")
+  if (!profile.verified_at) throw new VoteError("NOT_VERIFIED")
+
+  const { data: eligible, error: eligibleError } = await supabase
+    .from("eligible_voters")
+    .select("id")
+    .eq("matric_no", profile.matric_no.trim().toUpperCase())
+    .maybeSingle()
+
+  if (eligibleError) throw eligibleError
+  if (!eligible) throw new VoteError("NOT_ELIGIBLE")
+}
+
+// Casts checked votes together, with their result stored under requestKey when there is one.
+// If the key's request already went through (e.g. its response was lost and this is the client's
+// retry), that request's results are returned instead.
+async function castVotes(
+  supabase: SupabaseClient,
+  voterId: string,
+  votes: CheckedVote[],
+  requestKey?: string,
+): Promise<CastVoteResult[]> {
+  const sealed: SealedVote[] = votes.map((vote) => {
+    const { ballotId, receipt } = createBallotReceipt()
+    return { id: ballotId, ...vote, receipt }
+  })
+
+  const { data: cast, error: castError } = await supabase.rpc("cast_ballots", {
+    p_user_id: voterId,
+    p_ballots: sealed.map((vote) => ({
+      post_id: vote.post_id,
+      ballot_id: vote.id,
+      receipt: vote.receipt,
+      candidate_id: vote.candidate_id,
+      ranking: vote.ranking,
+      selections: vote.selections,
+      approval: vote.approval,
+    })),
+    p_request_key_hash: requestKey ? requestKeyHash(requestKey) : null,
+    p_sealed_result: requestKey ? sealResult(requestKey, sealed) : null,
+  })
+
+  // The participation row's UNIQUE(post_id, user_id) is the final guard against double votes
+  if (castError) {
+    if (castError.code === "23505") {
+      const replayed = requestKey && (await findRequest(supabase, voterId, requestKey))
+      if (replayed) return replayed
+      throw new VoteError("ALREADY_VOTED")
+    }
+    throw castError
+  }
+
+  const votedAt = new Map<string, string>(
+    (cast || []).map((row: { post_id: string; voted_at: string }) => [row.post_id, row.voted_at]),
+  )
+  return sealed.map((vote) => ({ ...vote, created_at: votedAt.get(vote.post_id)! }))
+}
+
+export async function recordVote(
+  supabase: SupabaseClient,
+  voterId: string,
+  input: CastVoteInput,
+  requestKey?: string,
+): Promise<CastVoteResult> {
+  // A retry of a vote that already went through gets its result back, even if voting has closed since
+  const replayed = requestKey && (await findRequest(supabase, voterId, requestKey))
+  if (replayed) return replayed[0]
+
+  const vote = await checkVote(supabase, input)
+  await checkVoter(supabase, voterId)
+
+  const [cast] = await castVotes(supabase, voterId, [vote], requestKey)
+  return cast
+}
+
+export function parseCastBallotInput(body: any): CastBallotInput {
+  if (typeof body?.election_id !== "string" || !Array.isArray(body.votes) || body.votes.length === 0) {
+    throw new VoteError("INVALID_REQUEST")
+  }
+
+  const votes: CastVoteInput[] = body.votes.map(parseCastVoteInput)
+  if (new Set(votes.map((vote) => vote.post_id)).size !== votes.length) {
+    throw new VoteError("INVALID_REQUEST", "The ballot lists a position more than once.")
+  }
+  return { election_id: body.election_id, votes }
+}
+
+// Records a whole ballot: every vote is checked as recordVote would, and must be for a post in the
+// ballot's election, then all are cast together by cast_ballots(). A VoteError about one position
+// carries its post id.
+export async function recordBallot(
+  supabase: SupabaseClient,
+  voterId: string,
+  { election_id: electionId, votes: inputs }: CastBallotInput,
+  requestKey?: string,
+): Promise<CastVoteResult[]> {
+  const replayed = requestKey && (await findRequest(supabase, voterId, requestKey))
+  if (replayed) return replayed
+
+  const votes: CheckedVote[] = []
+  for (const input of inputs) {
+    try {
+      votes.push(await checkVote(supabase, input, electionId))
+    } catch (error) {
+      if (error instanceof VoteError) throw new VoteError(error.code, error.message, input.post_id)
+      throw error
+    }
+  }
+  await checkVoter(supabase, voterId)
+
+  // Name a post already voted on; cast_ballots() still refuses the lot if one slips in after this
+  const { data: voted, error: votedError } = await supabase
+    .from("ballot_participation")
+    .select("post_id")
+    .eq("user_id", voterId)
+    .in("post_id", votes.map((vote) => vote.post_id))
+    .limit(1)
+    .maybeSingle()
+
+  if (votedError) throw votedError
+  if (voted) {
+    // Possibly this request's own earlier attempt, which finished while this one was being checked
+    const replayedLate = requestKey && (await findRequest(supabase, voterId, requestKey))
+    if (replayedLate) return replayedLate
+    throw new VoteError("ALREADY_VOTED", undefined, voted.post_id)
+  }
+
+  return castVotes(supabase, voterId, votes, requestKey)
+}
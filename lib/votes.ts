@@ -0,0 +1,103 @@
+// Shared vote casting types and the browser-side client for POST /api/votes and /api/votes/ballot
+import { ApiError, apiRequest, type ApiErrorCode } from "./api"
+
+export const VOTE_ERROR_MESSAGES = {
+  UNAUTHENTICATED: "Your session has expired. Please sign in again to vote.",
+  INVALID_REQUEST: "The vote could not be read. Please select a candidate and try again.",
+  POST_NOT_FOUND: "This position no longer exists.",
+  ELECTION_INACTIVE: "This election is not currently active.",
+  ELECTION_NOT_STARTED: "Voting for this election has not started yet.",
+  ELECTION_ENDED: "Voting for this election has closed.",
+  CANDIDATE_NOT_IN_POST: "The selected candidate is not standing for this position.",
+  INVALID_RANKING: "Rank each candidate at most once. This position may not accept a ranked ballot.",
+  TOO_MANY_SELECTIONS: "You have chosen more candidates than this position allows.",
+  APPROVAL_REQUIRED: "This position is a Yes/No vote. Please choose Yes or No.",
+  ABSTAIN_NOT_ALLOWED: "This position does not offer an abstain option. Please select a candidate.",
+  PROFILE_NOT_FOUND: "We could not find your voter profile.",
+  NOT_VERIFIED: "Verify your university email before voting.",
+  NOT_ELIGIBLE: "Your matric number is no longer on the eligible voters list.",
+  ALREADY_VOTED: "Your vote has already been recorded for this position.",
+  INTERNAL_ERROR: "An unexpected error occurred during vote submission.",
+} satisfies Partial<Record<ApiErrorCode, string>>
+
+export type VoteErrorCode = keyof typeof VOTE_ERROR_MESSAGES
+
+// Raised by the server-side vote checks, with the message voters see for each code
+export class VoteError extends ApiError<VoteErrorCode> {
+  constructor(code: VoteErrorCode, message?: string, postId?: string) {
+    super(code, message || VOTE_ERROR_MESSAGES[code], postId)
+    this.name = "VoteError"
+  }
+}
+
+export interface CastVoteInput {
+  post_id: string
+  // The choice, or for a ranked post the first preference, or for a multi-choice post the first selection.
+  // null abstains, where the post allows it
+  candidate_id: string | null
+  // Ranked posts only: every ranked candidate, most preferred first
+  ranking?: string[]
+  // Posts allowing several choices: every chosen candidate
+  selections?: string[]
+  // Referendum posts only: Yes (true) or No (false) on candidate_id
+  approve?: boolean
+}
+
+// A whole ballot: one vote for each position the voter filled in, all in the same election
+export interface CastBallotInput {
+  election_id: string
+  votes: CastVoteInput[]
+}
+
+// The stored ballot, which doesn't name its voter, and when they voted
+export interface CastVoteResult {
+  id: string
+  post_id: string
+  candidate_id: string | null
+  ranking: string[] | null
+  selections: string[] | null
+  approval: boolean | null
+  // Shown to the voter once; see lib/receipts.ts
+  receipt: string
+  created_at: string
+}
+
+// Sent with every attempt at one submission; see scripts/vote-requests.sql
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+
+// Rejections from the server (closed election, already voted, ...) are final; only network and
+// unexpected server failures are worth trying again
+export function isRetryableVoteError(error: unknown): boolean {
+  return !(error instanceof ApiError) || error.code === "INTERNAL_ERROR"
+}
+
+// The session ended before the server looked at the vote, so it can go again once the voter signs back in
+export function isSignedOutVoteError(error: unknown): boolean {
+  return error instanceof ApiError && error.code === "UNAUTHENTICATED"
+}
+
+const requestKeyHeaders = (requestKey?: string) => (requestKey ? { [IDEMPOTENCY_KEY_HEADER]: requestKey } : undefined)
+
+// Cast a vote through the server, which resolves the voter from the session. Retries must pass the
+// same requestKey so the server records the vote once and answers each retry with the same result.
+export function castVote(input: CastVoteInput, requestKey?: string): Promise<CastVoteResult> {
+  return apiRequest<CastVoteResult>("/api/votes", { method: "POST", body: input, headers: requestKeyHeaders(requestKey) })
+}
+
+// Cast one vote for each of several positions in an election, all together: if any is rejected
+// none are recorded, and the ApiError names the position at fault
+export function castBallot(input: CastBallotInput, requestKey?: string): Promise<CastVoteResult[]> {
+  return apiRequest<CastVoteResult[]>("/api/votes/ballot", {
+    method: "POST",
+    body: input,
+    headers: requestKeyHeaders(requestKey),
+  })
+}
+
+// This device's record of how it voted on each post, read back by the home and results pages.
+// The server can't tell a voter how they voted, since ballots don't name their voter.
+export function rememberVote({ post_id, ...vote }: CastVoteInput) {
+  const userVotes = JSON.parse(localStorage.getItem("userVotes") || "{}")
+  userVotes[post_id] = vote
+  localStorage.setItem("userVotes", JSON.stringify(userVotes))
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createMiddlewareClient } from "@supabase/auth-helpers-nextjs"
+import { hasPermission, isStaffRole, type Permission } from "@/lib/roles"
+
+// The permission each admin API route needs for anything but GET, most specific first.
+// Each route also calls requirePermission() itself, so this is the first of two checks, not the only one.
+const API_PERMISSIONS: [RegExp, Permission][] = [
+  [/^\/api\/elections\/[^/]+\/(status|results|ledger)$/, "change_election_status"],
+  [/^\/api\/(elections|posts)(\/|$)/, "manage_elections"],
+  [/^\/api\/(candidates|cloudinary|upload)(\/|$)/, "manage_candidates"],
+  [/^\/api\/eligible-voters(\/|$)/, "manage_voters"],
+  [/^\/api\/users\/accounts(\/|$)/, "manage_voters"],
+  [/^\/api\/users(\/|$)/, "manage_roles"],
+]
+
+export async function middleware(request: NextRequest) {
+  const response = NextResponse.next()
+  const { pathname } = request.nextUrl
+  const isAdminPage = pathname === "/admin" || pathname.startsWith("/admin/")
+  const apiPermission =
+    request.method === "GET" ? undefined : API_PERMISSIONS.find(([pattern]) => pattern.test(pathname))?.[1]
+
+  // Refreshes the session cookie as a side effect, which route handlers then read
+  const supabase = createMiddlewareClient({ req: request, res: response })
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!isAdminPage && !apiPermission) return response
+
+  if (!user) {
+    return apiPermission
+      ? NextResponse.json({ error: "Sign in to continue", code: "UNAUTHENTICATED" }, { status: 401 })
+      : NextResponse.redirect(new URL("/", request.url))
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle()
+
+  if (apiPermission && !hasPermission(profile?.role, apiPermission)) {
+    return NextResponse.json({ error: "Your role does not allow this action", code: "FORBIDDEN" }, { status: 403 })
+  }
+
+  if (isAdminPage && !isStaffRole(profile?.role)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url))
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: [
+    "/admin/:path*",
+    "/api/elections/:path*",
+    "/api/posts/:path*",
+    "/api/candidates/:path*",
+    "/api/eligible-voters/:path*",
+    "/api/cloudinary/:path*",
+    "/api/upload",
+    "/api/users/:path*",
+  ],
+}
@@ -0,0 +1,78 @@
+-- Optional abstain ("none of the above") choice per post. An abstention is recorded as a ballot with
+-- no candidate, so it counts toward turnout and blocks a second vote without counting for anyone.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS allow_abstain BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_abstention_is_blank;
+ALTER TABLE votes ADD CONSTRAINT votes_abstention_is_blank
+  CHECK (candidate_id IS NOT NULL OR (ranking IS NULL AND selections IS NULL AND approval IS NULL));
+
+CREATE OR REPLACE FUNCTION prevent_locked_voting_method_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  IF NEW.voting_method IS DISTINCT FROM OLD.voting_method
+    OR NEW.seats IS DISTINCT FROM OLD.seats
+    OR NEW.max_selections IS DISTINCT FROM OLD.max_selections
+    OR NEW.approval_threshold IS DISTINCT FROM OLD.approval_threshold
+    OR NEW.allow_abstain IS DISTINCT FROM OLD.allow_abstain
+  THEN
+    SELECT election_effective_status(e) INTO current_status FROM elections e WHERE e.id = NEW.election_id;
+
+    IF current_status IN ('open', 'closed', 'certified') THEN
+      RAISE EXCEPTION 'How a position is voted on cannot be changed once voting has opened (election is %)', current_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- ballot_count includes abstentions, which are also counted on their own in abstain_count
+DROP FUNCTION IF EXISTS get_election_tally(UUID);
+CREATE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE,
+  seats INTEGER,
+  ballot_count BIGINT,
+  rejection_count BIGINT,
+  approval_threshold NUMERIC,
+  abstain_count BIGINT
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE),
+    MAX(v.created_at),
+    p.seats,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id),
+    COUNT(v.id) FILTER (WHERE v.approval IS FALSE),
+    CASE WHEN post_is_referendum(p) THEN p.approval_threshold END,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id AND b.candidate_id IS NULL)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND (v.candidate_id = c.id OR c.id = ANY(v.selections))
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  GROUP BY c.id, p.id
+  ORDER BY p.position, COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_election_tally(UUID) TO authenticated;
@@ -0,0 +1,216 @@
+-- Granular admin roles: super-admin, electoral officer, candidate manager and observer
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+-- Existing admins keep full access
+UPDATE profiles SET role = 'super_admin' WHERE role = 'admin';
+
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('user', 'super_admin', 'electoral_officer', 'candidate_manager', 'observer'));
+
+-- Keep in step with ROLE_PERMISSIONS in lib/roles.ts
+CREATE OR REPLACE FUNCTION role_has_permission(p_role TEXT, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_role
+    WHEN 'super_admin' THEN TRUE
+    WHEN 'electoral_officer' THEN p_permission IN ('view_monitoring', 'view_reports', 'change_election_status')
+    WHEN 'candidate_manager' THEN p_permission IN ('manage_candidates')
+    WHEN 'observer' THEN p_permission IN ('view_monitoring', 'view_reports')
+    ELSE FALSE
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SECURITY DEFINER so policies on profiles can call it without recursing into themselves
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT role_has_permission(role, p_permission) FROM profiles WHERE id = auth.uid()),
+    FALSE
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role <> 'user')
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles
+DROP POLICY IF EXISTS "Admins can view all profiles" ON profiles;
+DROP POLICY IF EXISTS "Staff can view all profiles" ON profiles;
+CREATE POLICY "Staff can view all profiles" ON profiles
+  FOR SELECT USING (is_staff());
+
+DROP POLICY IF EXISTS "Super admins can change roles" ON profiles;
+CREATE POLICY "Super admins can change roles" ON profiles
+  FOR UPDATE USING (has_permission('manage_roles'));
+
+-- Voters may still edit their own profile, but never their role
+CREATE OR REPLACE FUNCTION guard_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT has_permission('manage_roles') THEN
+    RAISE EXCEPTION 'Only a super admin can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS guard_profiles_role ON profiles;
+CREATE TRIGGER guard_profiles_role BEFORE UPDATE OF role ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_role();
+
+-- Elections: officers change status and publish results, only super admins edit the rest
+DROP POLICY IF EXISTS "Admins can manage elections" ON elections;
+DROP POLICY IF EXISTS "Staff can view all elections" ON elections;
+CREATE POLICY "Staff can view all elections" ON elections
+  FOR SELECT USING (is_staff());
+DROP POLICY IF EXISTS "Election managers can create elections" ON elections;
+CREATE POLICY "Election managers can create elections" ON elections
+  FOR INSERT WITH CHECK (has_permission('manage_elections'));
+DROP POLICY IF EXISTS "Election managers and officers can update elections" ON elections;
+CREATE POLICY "Election managers and officers can update elections" ON elections
+  FOR UPDATE USING (has_permission('manage_elections') OR has_permission('change_election_status'));
+DROP POLICY IF EXISTS "Election managers can delete elections" ON elections;
+CREATE POLICY "Election managers can delete elections" ON elections
+  FOR DELETE USING (has_permission('manage_elections'));
+
+-- The update policy lets officers at the row, so this holds them to what POST /api/elections/[id]/status
+-- and /results do: a permitted transition, opening or closing now, extending an open election, and
+-- publishing results. Keep in step with ELECTION_TRANSITIONS and transitionElection() / extendElection().
+CREATE OR REPLACE FUNCTION guard_officer_election_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  from_status TEXT = election_effective_status(OLD);
+  -- Columns an officer may touch; is_active and updated_at follow from them in other triggers
+  officer_columns TEXT[] = ARRAY['status', 'start_time', 'end_time', 'results_published_at', 'is_active', 'updated_at'];
+  -- The app server's clock sets "now" for opening and closing by hand
+  now_ish TIMESTAMP WITH TIME ZONE = NOW() + INTERVAL '1 minute';
+BEGIN
+  IF auth.uid() IS NULL OR has_permission('manage_elections') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - officer_columns IS DISTINCT FROM to_jsonb(OLD) - officer_columns THEN
+    RAISE EXCEPTION 'Only a super admin can edit election details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (from_status, NEW.status) IN (
+      ('draft', 'scheduled'), ('scheduled', 'draft'), ('scheduled', 'open'), ('open', 'closed'), ('closed', 'certified')
+    ) THEN
+      RAISE EXCEPTION 'An election that is % cannot be moved to %', from_status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'scheduled' AND (
+      NEW.end_time <= NOW()
+      OR NOT EXISTS (SELECT 1 FROM posts WHERE election_id = NEW.id)
+      OR EXISTS (
+        SELECT 1 FROM posts p
+        WHERE p.election_id = NEW.id AND p.voting_method = 'referendum'
+          AND (SELECT COUNT(*) FROM candidates c WHERE c.post_id = p.id) <> 1
+      )
+    ) THEN
+      RAISE EXCEPTION 'This election is not ready to be scheduled'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time
+    AND NOT (NEW.status = 'open' AND OLD.status <> 'open' AND NEW.start_time <= now_ish) THEN
+    RAISE EXCEPTION 'Officers can only move the opening time when opening voting'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.end_time IS DISTINCT FROM OLD.end_time
+    AND NOT (NEW.status = 'closed' AND OLD.status <> 'closed' AND NEW.end_time <= now_ish)
+    AND NOT (NEW.status = OLD.status AND from_status = 'open' AND NEW.end_time > OLD.end_time) THEN
+    RAISE EXCEPTION 'Officers can only move the closing time when closing or extending voting'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.results_published_at IS DISTINCT FROM OLD.results_published_at AND OLD.results_visibility <> 'after_publish' THEN
+    RAISE EXCEPTION 'Results for this election are released without publishing'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_elections_officer_update ON elections;
+CREATE TRIGGER guard_elections_officer_update BEFORE UPDATE ON elections
+  FOR EACH ROW EXECUTE FUNCTION guard_officer_election_update();
+
+DROP POLICY IF EXISTS "Admins can view election status changes" ON election_status_changes;
+DROP POLICY IF EXISTS "Staff can view election status changes" ON election_status_changes;
+CREATE POLICY "Staff can view election status changes" ON election_status_changes
+  FOR SELECT USING (is_staff());
+
+-- History rows are only written by record_election_status_change() (see election-lifecycle.sql)
+DROP POLICY IF EXISTS "Officers can record election status changes" ON election_status_changes;
+
+-- Posts and candidates
+DROP POLICY IF EXISTS "Admins can manage posts" ON posts;
+DROP POLICY IF EXISTS "Election managers can manage posts" ON posts;
+CREATE POLICY "Election managers can manage posts" ON posts
+  FOR ALL USING (has_permission('manage_elections'));
+
+DROP POLICY IF EXISTS "Admins can manage candidates" ON candidates;
+DROP POLICY IF EXISTS "Candidate managers can manage candidates" ON candidates;
+CREATE POLICY "Candidate managers can manage candidates" ON candidates
+  FOR ALL USING (has_permission('manage_candidates'));
+
+-- Votes, audit log and voter register
+DROP POLICY IF EXISTS "Admins can view all votes" ON votes;
+DROP POLICY IF EXISTS "Monitors can view all votes" ON votes;
+CREATE POLICY "Monitors can view all votes" ON votes
+  FOR SELECT USING (has_permission('view_monitoring'));
+
+DROP POLICY IF EXISTS "Admins can view audit logs" ON audit_logs;
+DROP POLICY IF EXISTS "Auditors can view audit logs" ON audit_logs;
+CREATE POLICY "Auditors can view audit logs" ON audit_logs
+  FOR SELECT USING (has_permission('view_audit_log'));
+
+DROP POLICY IF EXISTS "Staff can view the voter register" ON eligible_voters;
+CREATE POLICY "Staff can view the voter register" ON eligible_voters
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('manage_voters'));
+
+-- Staff who read results before release: monitors and report viewers
+CREATE OR REPLACE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id),
+    MAX(v.created_at)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND v.candidate_id = c.id
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  GROUP BY c.id, p.position
+  ORDER BY p.position, COUNT(v.id) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
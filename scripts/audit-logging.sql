@@ -0,0 +1,160 @@
+-- Write-through audit logging: every change to the admin-managed tables lands in audit_logs.
+-- The actor is the signed-in user (auth.uid()), or app.actor_id when a service-role function
+-- acts on an admin's behalf. IP address and user agent come from the PostgREST request headers.
+-- API routes using the service role forward the browser's as x-client-ip / x-client-user-agent;
+-- anyone else could set those, so other requests use the address the platform proxy appended
+-- to x-forwarded-for and their own user-agent.
+
+CREATE OR REPLACE FUNCTION audit_request_header(name TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json->>name
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_request_from_service()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), '')::json->>'role' = 'service_role', FALSE)
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_request_ip()
+RETURNS INET AS $$
+DECLARE
+  raw TEXT;
+BEGIN
+  IF audit_request_from_service() THEN
+    raw = audit_request_header('x-client-ip');
+  END IF;
+  -- The rightmost entry is the one the proxy added; anything left of it came from the client
+  raw = COALESCE(raw, TRIM(SUBSTRING(audit_request_header('x-forwarded-for') FROM '[^,]*$')));
+  RETURN NULLIF(raw, '')::INET;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_request_user_agent()
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    CASE WHEN audit_request_from_service() THEN audit_request_header('x-client-user-agent') END,
+    audit_request_header('user-agent')
+  )
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_actor_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(auth.uid(), NULLIF(current_setting('app.actor_id', true), '')::UUID)
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB = CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row JSONB = CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  row_id UUID = CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END;
+BEGIN
+  -- Updates that change nothing (e.g. re-saving an unchanged form) aren't worth a row
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only the role matters for profiles; other profile fields are the voter's own business
+  IF TG_TABLE_NAME = 'profiles' THEN
+    old_row = jsonb_build_object('role', old_row->'role');
+    new_row = jsonb_build_object('role', new_row->'role');
+  END IF;
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values, ip_address, user_agent)
+  VALUES (
+    audit_actor_id(),
+    TG_OP,
+    TG_TABLE_NAME,
+    row_id,
+    old_row,
+    new_row,
+    audit_request_ip(),
+    audit_request_user_agent()
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_elections ON elections;
+CREATE TRIGGER audit_elections AFTER INSERT OR UPDATE OR DELETE ON elections
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_posts ON posts;
+CREATE TRIGGER audit_posts AFTER INSERT OR UPDATE OR DELETE ON posts
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_candidates ON candidates;
+CREATE TRIGGER audit_candidates AFTER INSERT OR UPDATE OR DELETE ON candidates
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_eligible_voters ON eligible_voters;
+CREATE TRIGGER audit_eligible_voters AFTER INSERT OR UPDATE OR DELETE ON eligible_voters
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_profile_roles ON profiles;
+CREATE TRIGGER audit_profile_roles AFTER UPDATE OF role ON profiles
+  FOR EACH ROW WHEN (OLD.role IS DISTINCT FROM NEW.role) EXECUTE FUNCTION record_audit_log();
+
+-- Redefined from voter-register-import.sql so the import's row-level entries are attributed
+-- to the admin who ran it, and its summary entry carries the request's IP and user agent
+CREATE OR REPLACE FUNCTION apply_eligible_voter_import(p_rows JSONB, p_actor UUID)
+RETURNS JSONB AS $$
+DECLARE
+  added_count INTEGER;
+  updated_count INTEGER;
+  removed_count INTEGER;
+  summary JSONB;
+BEGIN
+  PERFORM set_config('app.actor_id', p_actor::TEXT, true);
+
+  CREATE TEMP TABLE incoming_voters ON COMMIT DROP AS
+    SELECT matric_no, name, NULLIF(department, '') AS department
+    FROM jsonb_to_recordset(p_rows) AS r(matric_no TEXT, name TEXT, department TEXT);
+
+  DELETE FROM eligible_voters ev
+  WHERE NOT EXISTS (SELECT 1 FROM incoming_voters i WHERE i.matric_no = UPPER(TRIM(ev.matric_no)));
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  UPDATE eligible_voters ev
+  SET matric_no = i.matric_no, name = i.name, department = i.department
+  FROM incoming_voters i
+  WHERE i.matric_no = UPPER(TRIM(ev.matric_no))
+    AND (ev.name IS DISTINCT FROM i.name OR ev.department IS DISTINCT FROM i.department);
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  INSERT INTO eligible_voters (matric_no, name, department)
+  SELECT i.matric_no, i.name, i.department
+  FROM incoming_voters i
+  WHERE NOT EXISTS (SELECT 1 FROM eligible_voters ev WHERE UPPER(TRIM(ev.matric_no)) = i.matric_no);
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  summary = jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count,
+    'total', jsonb_array_length(p_rows)
+  );
+
+  INSERT INTO audit_logs (user_id, action, table_name, new_values, ip_address, user_agent)
+  VALUES (
+    p_actor,
+    'IMPORT',
+    'eligible_voters',
+    summary,
+    audit_request_ip(),
+    audit_request_user_agent()
+  );
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION apply_eligible_voter_import(JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_table_action ON audit_logs(table_name, action, created_at);
@@ -0,0 +1,263 @@
+-- Tamper-evident ballot ledger. Every chained ballot carries its place in its election's chain
+-- (ledger_seq), the hash of the ballot before it (prev_hash) and its own hash over both plus its
+-- contents (ledger_hash). ballot_ledger_heads holds each chain's length and latest hash. Ballots can
+-- no longer be changed or deleted, and the integrity check (/api/elections/[id]/ledger)
+-- re-walks the chain, so edits made by someone who gets round the triggers still show up.
+--
+-- The chain must not follow the order ballots were cast in: ballot_participation keeps voters in
+-- that order, so lining the two up would undo the secret ballot. A ballot goes in unchained, and
+-- once an election has twice the batch size (see chain_ballots_when_due()) unchained, a random batch
+-- of them (by ballot id, which is random) is chained in one go. Chaining rewrites the row, so it no
+-- longer shares a transaction id with its participation row either. When voting ends,
+-- seal_ballot_ledger() chains whatever is left, which is never less than a batch unless the whole
+-- election had fewer ballots.
+
+CREATE TABLE IF NOT EXISTS ballot_ledger_heads (
+  election_id UUID PRIMARY KEY REFERENCES elections(id) ON DELETE RESTRICT,
+  length BIGINT NOT NULL DEFAULT 0,
+  head_hash TEXT NOT NULL DEFAULT REPEAT('0', 64),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Read by the service role only
+ALTER TABLE ballot_ledger_heads ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS election_id UUID REFERENCES elections(id) ON DELETE RESTRICT;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS ledger_seq BIGINT;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS ledger_hash TEXT;
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_ledger_position_key;
+ALTER TABLE votes ADD CONSTRAINT votes_ledger_position_key UNIQUE (election_id, ledger_seq);
+
+-- Unchained ballots have no position yet (re-runs over an older version of this script relax these)
+ALTER TABLE votes ALTER COLUMN ledger_seq DROP NOT NULL;
+ALTER TABLE votes ALTER COLUMN prev_hash DROP NOT NULL;
+ALTER TABLE votes ALTER COLUMN ledger_hash DROP NOT NULL;
+
+-- Deleting a candidate or post used to take its ballots with it
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_candidate_id_fkey;
+ALTER TABLE votes ADD CONSTRAINT votes_candidate_id_fkey
+  FOREIGN KEY (candidate_id) REFERENCES candidates(id) ON DELETE RESTRICT;
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_post_id_fkey;
+ALTER TABLE votes ADD CONSTRAINT votes_post_id_fkey
+  FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE RESTRICT;
+
+-- Keep in step with ledgerHash() in lib/ledger-server.ts, which recomputes it during the check
+CREATE OR REPLACE FUNCTION ballot_ledger_hash(
+  p_prev_hash TEXT,
+  p_seq BIGINT,
+  p_election_id UUID,
+  p_ballot_id UUID,
+  p_post_id UUID,
+  p_receipt TEXT,
+  p_candidate_id UUID,
+  p_ranking UUID[],
+  p_selections UUID[],
+  p_approval BOOLEAN
+)
+RETURNS TEXT AS $$
+  SELECT ENCODE(SHA256(CONVERT_TO(CONCAT_WS('|',
+    p_prev_hash,
+    p_seq::TEXT,
+    p_election_id::TEXT,
+    p_ballot_id::TEXT,
+    p_post_id::TEXT,
+    COALESCE(p_receipt, ''),
+    COALESCE(p_candidate_id::TEXT, ''),
+    COALESCE(ARRAY_TO_STRING(p_ranking, ','), ''),
+    COALESCE(ARRAY_TO_STRING(p_selections, ','), ''),
+    COALESCE(p_approval::TEXT, '')
+  ), 'UTF8')), 'hex')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Moves the election's head on by one ballot and returns the ballot's link. The head row is locked
+-- until the transaction ends, so concurrent ballots for one election queue up behind each other.
+CREATE OR REPLACE FUNCTION append_to_ballot_ledger(
+  p_election_id UUID,
+  p_ballot_id UUID,
+  p_post_id UUID,
+  p_receipt TEXT,
+  p_candidate_id UUID,
+  p_ranking UUID[],
+  p_selections UUID[],
+  p_approval BOOLEAN
+)
+RETURNS TABLE (seq BIGINT, prev_hash TEXT, hash TEXT) AS $$
+DECLARE
+  head ballot_ledger_heads;
+  next_hash TEXT;
+BEGIN
+  INSERT INTO ballot_ledger_heads (election_id) VALUES (p_election_id) ON CONFLICT (election_id) DO NOTHING;
+  SELECT * INTO head FROM ballot_ledger_heads h WHERE h.election_id = p_election_id FOR UPDATE;
+
+  next_hash = ballot_ledger_hash(
+    head.head_hash, head.length + 1, p_election_id, p_ballot_id, p_post_id,
+    p_receipt, p_candidate_id, p_ranking, p_selections, p_approval
+  );
+
+  UPDATE ballot_ledger_heads h
+  SET length = head.length + 1, head_hash = next_hash, updated_at = NOW()
+  WHERE h.election_id = p_election_id;
+
+  RETURN QUERY SELECT head.length + 1, head.head_hash, next_hash;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION append_to_ballot_ledger(UUID, UUID, UUID, TEXT, UUID, UUID[], UUID[], BOOLEAN)
+  FROM PUBLIC, anon, authenticated;
+
+-- Chains up to p_limit of the election's unchained ballots (all of them when NULL), in ballot id
+-- order, which is random. Holds the head lock throughout, so two batches never interleave.
+CREATE OR REPLACE FUNCTION chain_pending_ballots(p_election_id UUID, p_limit INT DEFAULT NULL)
+RETURNS INT AS $$
+DECLARE
+  ballot RECORD;
+  chained INT := 0;
+BEGIN
+  INSERT INTO ballot_ledger_heads (election_id) VALUES (p_election_id) ON CONFLICT (election_id) DO NOTHING;
+  PERFORM 1 FROM ballot_ledger_heads h WHERE h.election_id = p_election_id FOR UPDATE;
+
+  FOR ballot IN
+    SELECT v.*
+    FROM votes v
+    WHERE v.election_id = p_election_id AND v.ledger_seq IS NULL
+    ORDER BY v.id
+    LIMIT p_limit
+  LOOP
+    UPDATE votes v
+    SET (ledger_seq, prev_hash, ledger_hash) = (
+      SELECT l.seq, l.prev_hash, l.hash
+      FROM append_to_ballot_ledger(
+        ballot.election_id, ballot.id, ballot.post_id, ballot.receipt,
+        ballot.candidate_id, ballot.ranking, ballot.selections, ballot.approval
+      ) l
+    )
+    WHERE v.id = ballot.id;
+    chained := chained + 1;
+  END LOOP;
+
+  RETURN chained;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION chain_pending_ballots(UUID, INT) FROM PUBLIC, anon, authenticated;
+
+-- Chains every ballot left once voting has ended; before then only full batches are chained
+CREATE OR REPLACE FUNCTION seal_ballot_ledger(p_election_id UUID)
+RETURNS INT AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  SELECT election_effective_status(e) INTO current_status FROM elections e WHERE e.id = p_election_id;
+  IF current_status IS DISTINCT FROM 'closed' AND current_status IS DISTINCT FROM 'certified' THEN
+    RETURN 0;
+  END IF;
+
+  RETURN chain_pending_ballots(p_election_id);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION seal_ballot_ledger(UUID) FROM PUBLIC, anon, authenticated;
+
+-- New ballots take their election from their post and always start unchained
+CREATE OR REPLACE FUNCTION stamp_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT p.election_id INTO NEW.election_id FROM posts p WHERE p.id = NEW.post_id;
+  NEW.ledger_seq = NULL;
+  NEW.prev_hash = NULL;
+  NEW.ledger_hash = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Chains a batch once there are two batches' worth waiting, so each batch is drawn from a pool at
+-- least twice its size and at least a batch is always left to mix with the ballots still to come.
+-- The count is taken again under the head lock, as a batch chained meanwhile may have shrunk the pool.
+CREATE OR REPLACE FUNCTION chain_ballots_when_due()
+RETURNS TRIGGER AS $$
+DECLARE
+  batch_size CONSTANT INT := 25;
+BEGIN
+  IF (SELECT COUNT(*) FROM votes v WHERE v.election_id = NEW.election_id AND v.ledger_seq IS NULL) < 2 * batch_size THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ballot_ledger_heads (election_id) VALUES (NEW.election_id) ON CONFLICT (election_id) DO NOTHING;
+  PERFORM 1 FROM ballot_ledger_heads h WHERE h.election_id = NEW.election_id FOR UPDATE;
+  IF (SELECT COUNT(*) FROM votes v WHERE v.election_id = NEW.election_id AND v.ledger_seq IS NULL) >= 2 * batch_size THEN
+    PERFORM chain_pending_ballots(NEW.election_id, batch_size);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The one change a ballot may take: being given its place in the chain, once
+CREATE OR REPLACE FUNCTION guard_ballot_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.ledger_seq IS NULL
+    AND NEW.ledger_seq IS NOT NULL
+    AND (NEW.id, NEW.election_id, NEW.post_id, NEW.receipt, NEW.candidate_id, NEW.ranking, NEW.selections, NEW.approval)
+      IS NOT DISTINCT FROM
+      (OLD.id, OLD.election_id, OLD.post_id, OLD.receipt, OLD.candidate_id, OLD.ranking, OLD.selections, OLD.approval)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'The ballot ledger is append-only; % on % is not allowed', TG_OP, TG_TABLE_NAME
+    USING ERRCODE = 'check_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION prevent_ballot_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The ballot ledger is append-only; % on % is not allowed', TG_OP, TG_TABLE_NAME
+    USING ERRCODE = 'check_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ballots cast before the ledger existed are stamped with their election and wait, unchained, for
+-- a batch like any other. The append-only trigger is dropped first so the update can run.
+DROP TRIGGER IF EXISTS votes_append_only ON votes;
+
+UPDATE votes v
+SET election_id = p.election_id
+FROM posts p
+WHERE p.id = v.post_id AND v.election_id IS NULL;
+
+ALTER TABLE votes ALTER COLUMN election_id SET NOT NULL;
+
+-- Replaced by stamp_ballot() and chain_ballots_when_due()
+DROP TRIGGER IF EXISTS chain_ballots ON votes;
+DROP FUNCTION IF EXISTS chain_ballot();
+
+DROP TRIGGER IF EXISTS stamp_ballots ON votes;
+CREATE TRIGGER stamp_ballots BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION stamp_ballot();
+
+DROP TRIGGER IF EXISTS chain_ballots_when_due ON votes;
+CREATE TRIGGER chain_ballots_when_due AFTER INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION chain_ballots_when_due();
+
+CREATE TRIGGER votes_append_only BEFORE UPDATE OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION guard_ballot_ledger();
+
+DROP TRIGGER IF EXISTS votes_no_truncate ON votes;
+CREATE TRIGGER votes_no_truncate BEFORE TRUNCATE ON votes
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_ballot_ledger_changes();
+
+-- Heads only ever move forward, through append_to_ballot_ledger()
+DROP TRIGGER IF EXISTS ballot_ledger_heads_kept ON ballot_ledger_heads;
+CREATE TRIGGER ballot_ledger_heads_kept BEFORE DELETE ON ballot_ledger_heads
+  FOR EACH ROW EXECUTE FUNCTION prevent_ballot_ledger_changes();
+
+DROP TRIGGER IF EXISTS ballot_ledger_heads_no_truncate ON ballot_ledger_heads;
+CREATE TRIGGER ballot_ledger_heads_no_truncate BEFORE TRUNCATE ON ballot_ledger_heads
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_ballot_ledger_changes();
+
+CREATE INDEX IF NOT EXISTS idx_votes_election_ledger ON votes(election_id, ledger_seq);
+CREATE INDEX IF NOT EXISTS idx_votes_unchained ON votes(election_id, id) WHERE ledger_seq IS NULL;
@@ -0,0 +1,94 @@
+-- Voter-verifiable receipts. Each ballot stores a receipt code, the SHA-256 of its id and a nonce that
+-- is thrown away once the code is made, so nobody can work a receipt out from a ballot or the other
+-- way round. Receipts are published per post as a plain list, without choices, alongside the results.
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS receipt TEXT UNIQUE;
+
+-- The server now picks the ballot id so it can make the receipt before the ballot is stored
+DROP FUNCTION IF EXISTS cast_ballot(UUID, UUID, UUID, UUID[], UUID[], BOOLEAN);
+CREATE FUNCTION cast_ballot(
+  p_post_id UUID,
+  p_user_id UUID,
+  p_ballot_id UUID,
+  p_receipt TEXT,
+  p_candidate_id UUID,
+  p_ranking UUID[],
+  p_selections UUID[],
+  p_approval BOOLEAN
+)
+RETURNS TABLE (ballot_id UUID, voted_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  new_voted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO ballot_participation (post_id, user_id)
+  VALUES (p_post_id, p_user_id)
+  RETURNING created_at INTO new_voted_at;
+
+  INSERT INTO votes (id, receipt, post_id, candidate_id, ranking, selections, approval)
+  VALUES (p_ballot_id, p_receipt, p_post_id, p_candidate_id, p_ranking, p_selections, p_approval);
+
+  RETURN QUERY SELECT p_ballot_id, new_voted_at;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cast_ballot(UUID, UUID, UUID, TEXT, UUID, UUID[], UUID[], BOOLEAN)
+  FROM PUBLIC, anon, authenticated;
+
+-- Every receipt for a post, in code order so the list says nothing about when ballots were cast.
+-- Released on the same terms as get_election_tally().
+CREATE OR REPLACE FUNCTION get_ballot_receipts(p_post_id UUID)
+RETURNS TABLE (receipt TEXT) AS $$
+  SELECT v.receipt
+  FROM votes v
+  JOIN posts p ON p.id = v.post_id
+  JOIN elections e ON e.id = p.election_id
+  WHERE v.post_id = p_post_id
+    AND v.receipt IS NOT NULL
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  ORDER BY v.receipt
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_ballot_receipts(UUID) TO anon, authenticated;
+
+-- Which post a receipt belongs to, and whether that post's receipt list is published yet. Once it
+-- is, also whether the receipt is in it, how long the list is and where in it the receipt sits, so
+-- the check doesn't depend on the client fetching the whole list. Says nothing about the choice on
+-- the ballot.
+DROP FUNCTION IF EXISTS find_ballot_receipt(TEXT);
+CREATE FUNCTION find_ballot_receipt(p_receipt TEXT)
+RETURNS TABLE (
+  post_id UUID,
+  post_title TEXT,
+  election_id UUID,
+  election_title TEXT,
+  published BOOLEAN,
+  listed BOOLEAN,
+  ballots BIGINT,
+  list_position BIGINT
+) AS $$
+  SELECT
+    p.id,
+    p.title,
+    e.id,
+    e.title,
+    released.published,
+    released.published AND listed.receipt IS NOT NULL,
+    CASE WHEN released.published THEN (SELECT COUNT(*) FROM get_ballot_receipts(p.id)) END,
+    CASE WHEN listed.receipt IS NOT NULL THEN
+      (SELECT COUNT(*) FROM get_ballot_receipts(p.id) r WHERE r.receipt < listed.receipt)
+    END
+  FROM votes v
+  JOIN posts p ON p.id = v.post_id
+  JOIN elections e ON e.id = p.election_id
+  CROSS JOIN LATERAL (SELECT election_results_released(e) AS published) released
+  LEFT JOIN LATERAL (
+    SELECT r.receipt FROM get_ballot_receipts(p.id) r WHERE released.published AND r.receipt = v.receipt
+  ) listed ON TRUE
+  WHERE v.receipt = LOWER(p_receipt)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_ballot_receipt(TEXT) TO anon, authenticated;
@@ -140,9 +140,7 @@ CREATE POLICY "Admins can manage candidates" ON candidates
 CREATE POLICY "Users can view own votes" ON votes
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert own votes" ON votes
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
-
+-- Votes are inserted only by POST /api/votes with the service role key
 CREATE POLICY "Admins can view all votes" ON votes
   FOR SELECT USING (
     EXISTS (
@@ -0,0 +1,138 @@
+-- Election lifecycle: draft → scheduled → open → closed → certified
+
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft'
+  CHECK (status IN ('draft', 'scheduled', 'open', 'closed', 'certified'));
+
+-- Derive a status for existing elections from the old is_active flag and their window
+UPDATE elections SET status = CASE
+  WHEN NOT is_active THEN 'draft'
+  WHEN NOW() < start_time THEN 'scheduled'
+  WHEN NOW() < end_time THEN 'open'
+  ELSE 'closed'
+END
+WHERE status = 'draft';
+
+-- The stored status with the scheduled clock applied. Keep in step with getElectionStatus() in lib/elections.ts.
+CREATE OR REPLACE FUNCTION election_effective_status(e elections)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN e.status = 'scheduled' AND NOW() >= e.end_time THEN 'closed'
+    WHEN e.status = 'scheduled' AND NOW() >= e.start_time THEN 'open'
+    WHEN e.status = 'open' AND NOW() >= e.end_time THEN 'closed'
+    ELSE e.status
+  END
+$$ LANGUAGE sql STABLE;
+
+-- Who moved an election between states, and when
+CREATE TABLE IF NOT EXISTS election_status_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  election_id UUID REFERENCES elections(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_election_status_changes_election ON election_status_changes(election_id, created_at);
+
+ALTER TABLE election_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view election status changes" ON election_status_changes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- No insert policy: rows are written by record_election_status_change() below
+DROP POLICY IF EXISTS "Admins can record election status changes" ON election_status_changes;
+
+-- is_active is kept only for older scripts; it now mirrors the status
+CREATE OR REPLACE FUNCTION sync_election_is_active()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_active = NEW.status IN ('scheduled', 'open');
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS sync_elections_is_active ON elections;
+CREATE TRIGGER sync_elections_is_active BEFORE INSERT OR UPDATE ON elections
+  FOR EACH ROW EXECUTE FUNCTION sync_election_is_active();
+
+-- Voters see every election past draft (closed and certified ones for their results)
+DROP POLICY IF EXISTS "Anyone can view active elections" ON elections;
+CREATE POLICY "Anyone can view published elections" ON elections
+  FOR SELECT USING (status <> 'draft' AND archived_at IS NULL);
+
+-- Candidates are frozen once voting opens
+CREATE OR REPLACE FUNCTION prevent_locked_candidate_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_post_id UUID;
+  current_status TEXT;
+BEGIN
+  target_post_id = CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+
+  SELECT election_effective_status(e) INTO current_status
+  FROM posts p JOIN elections e ON e.id = p.election_id
+  WHERE p.id = target_post_id;
+
+  IF current_status IN ('open', 'closed', 'certified') THEN
+    RAISE EXCEPTION 'Candidates cannot be changed once voting has opened (election is %)', current_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS lock_candidates_after_open ON candidates;
+CREATE TRIGGER lock_candidates_after_open BEFORE INSERT OR UPDATE OR DELETE ON candidates
+  FOR EACH ROW EXECUTE FUNCTION prevent_locked_candidate_changes();
+
+-- A later closing time on a closed election would reopen voting and withdraw released results.
+-- Open elections may still be extended (through POST /api/elections/[id]/status) or closed early.
+CREATE OR REPLACE FUNCTION prevent_reopening_closed_elections()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF election_effective_status(OLD) IN ('closed', 'certified') AND NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    RAISE EXCEPTION 'Voting in this election has ended; its closing time can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS keep_closed_elections_closed ON elections;
+CREATE TRIGGER keep_closed_elections_closed BEFORE UPDATE ON elections
+  FOR EACH ROW EXECUTE FUNCTION prevent_reopening_closed_elections();
+
+-- Status changes and extensions are recorded here rather than by the caller, so the history is
+-- written in the same transaction as the change and can't be skipped or forged
+CREATE OR REPLACE FUNCTION record_election_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  from_status TEXT = election_effective_status(OLD);
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO election_status_changes (election_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, from_status, NEW.status, auth.uid());
+  ELSIF from_status = 'open' AND NEW.end_time > OLD.end_time THEN
+    -- Extending an open election shows as open → open
+    INSERT INTO election_status_changes (election_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, 'open', 'open', auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_elections_status_change ON elections;
+CREATE TRIGGER record_elections_status_change AFTER UPDATE OF status, end_time ON elections
+  FOR EACH ROW EXECUTE FUNCTION record_election_status_change();
@@ -0,0 +1,17 @@
+-- Admin-managed elections and posts (positions)
+
+-- Archived elections are hidden from admins' election picker but keep their ballots
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Ballot order of posts within an election
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+-- Number existing posts alphabetically, which is the order they were shown in before
+UPDATE posts SET position = ordered.row_number
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY election_id ORDER BY title) AS row_number
+  FROM posts
+) AS ordered
+WHERE posts.id = ordered.id AND posts.position = 0;
+
+CREATE INDEX IF NOT EXISTS idx_posts_election_position ON posts(election_id, position);
@@ -0,0 +1,40 @@
+-- Per-candidate vote counts for a whole election, counted in the database.
+-- Runs as the owner so voters can see totals even though votes RLS only shows them their own rows;
+-- outside of admins, nothing is returned until voting has opened.
+CREATE OR REPLACE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id),
+    MAX(v.created_at)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND v.candidate_id = c.id
+  WHERE e.id = p_election_id
+    AND (
+      election_effective_status(e) IN ('open', 'closed', 'certified')
+      OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    )
+  GROUP BY c.id, p.position
+  ORDER BY p.position, COUNT(v.id) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_election_tally(UUID) TO authenticated;
+
+-- Live monitoring reads recent votes by post and time
+CREATE INDEX IF NOT EXISTS idx_votes_post_created ON votes(post_id, created_at);
@@ -50,7 +50,7 @@ async function initializeDatabase() {
             description: "Annual student union elections for academic year 2024-2025",
             start_time: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
             end_time: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            is_active: true,
+            status: "open",
           },
         ])
         .select()
@@ -78,7 +78,7 @@ async function initializeDatabase() {
     } else {
       const { data: posts, error: postsError } = await supabase
         .from("posts")
-        .insert(positions.map((pos) => ({ ...pos, election_id: electionId })))
+        .insert(positions.map((pos, index) => ({ ...pos, election_id: electionId, position: index + 1 })))
         .select()
 
       if (postsError) throw postsError
@@ -87,11 +87,36 @@ async function initializeDatabase() {
 
     // 3. Insert sample eligible voters
     const voters = [
-      { matric_no: "2021/CS/001", name: "John Doe", department: "Computer Science" },
-      { matric_no: "2021/CS/002", name: "Jane Smith", department: "Computer Science" },
-      { matric_no: "2021/ENG/001", name: "Mike Johnson", department: "Engineering" },
-      { matric_no: "2021/ENG/002", name: "Sarah Wilson", department: "Engineering" },
-      { matric_no: "2021/BUS/001", name: "David Brown", department: "Business Administration" },
+      {
+        matric_no: "2021/CS/001",
+        name: "John Doe",
+        department: "Computer Science",
+        email: "john.doe@students.university.edu",
+      },
+      {
+        matric_no: "2021/CS/002",
+        name: "Jane Smith",
+        department: "Computer Science",
+        email: "jane.smith@students.university.edu",
+      },
+      {
+        matric_no: "2021/ENG/001",
+        name: "Mike Johnson",
+        department: "Engineering",
+        email: "mike.johnson@students.university.edu",
+      },
+      {
+        matric_no: "2021/ENG/002",
+        name: "Sarah Wilson",
+        department: "Engineering",
+        email: "sarah.wilson@students.university.edu",
+      },
+      {
+        matric_no: "2021/BUS/001",
+        name: "David Brown",
+        department: "Business Administration",
+        email: "david.brown@students.university.edu",
+      },
     ]
 
     const { error: votersError } = await supabase.from("eligible_voters").upsert(voters, {
@@ -109,7 +134,7 @@ async function initializeDatabase() {
           email: "admin@university.edu",
           name: "Administrator",
           matric_no: "ADMIN001",
-          role: "admin",
+          role: "super_admin",
         },
       ],
       { onConflict: "email" },
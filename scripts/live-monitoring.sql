@@ -0,0 +1,3 @@
+-- Stream vote inserts to the admin Live Monitoring tab over Supabase Realtime.
+-- Realtime applies the votes RLS policies, so only admins receive other voters' inserts.
+ALTER PUBLICATION supabase_realtime ADD TABLE votes;
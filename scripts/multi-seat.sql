@@ -0,0 +1,81 @@
+-- Multi-seat posts: a post fills `seats` places and each voter may choose up to `max_selections`
+-- candidates. Ranked posts elect a single candidate, so they keep one seat and one first choice.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1 CHECK (seats >= 1);
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS max_selections INTEGER NOT NULL DEFAULT 1 CHECK (max_selections >= 1);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_ranked_single_seat;
+ALTER TABLE posts ADD CONSTRAINT posts_ranked_single_seat
+  CHECK (voting_method = 'plurality' OR (seats = 1 AND max_selections = 1));
+
+-- A ballot choosing several candidates lists them all; candidate_id keeps the first, as with rankings
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS selections UUID[];
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_selections_first_choice;
+ALTER TABLE votes ADD CONSTRAINT votes_selections_first_choice
+  CHECK (selections IS NULL OR (cardinality(selections) > 0 AND selections[1] = candidate_id));
+
+-- Seats and the selection limit are part of how a post is counted, so they freeze with the voting method
+CREATE OR REPLACE FUNCTION prevent_locked_voting_method_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  IF NEW.voting_method IS DISTINCT FROM OLD.voting_method
+    OR NEW.seats IS DISTINCT FROM OLD.seats
+    OR NEW.max_selections IS DISTINCT FROM OLD.max_selections
+  THEN
+    SELECT election_effective_status(e) INTO current_status FROM elections e WHERE e.id = NEW.election_id;
+
+    IF current_status IN ('open', 'closed', 'certified') THEN
+      RAISE EXCEPTION 'How a position is voted on cannot be changed once voting has opened (election is %)', current_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- vote_count now counts every ballot that chose the candidate, and ballot_count the ballots cast
+-- for the post, so a multi-seat post's percentages are shares of its voters. The return type
+-- changes, so the function is dropped first.
+DROP FUNCTION IF EXISTS get_election_tally(UUID);
+CREATE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE,
+  seats INTEGER,
+  ballot_count BIGINT
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id),
+    MAX(v.created_at),
+    p.seats,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND (v.candidate_id = c.id OR c.id = ANY(v.selections))
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  GROUP BY c.id, p.id
+  ORDER BY p.position, COUNT(v.id) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_election_tally(UUID) TO authenticated;
@@ -0,0 +1,55 @@
+-- Ranked-choice voting: each post is counted by plurality (one choice) or instant-runoff (ranked)
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS voting_method TEXT NOT NULL DEFAULT 'plurality'
+  CHECK (voting_method IN ('plurality', 'ranked'));
+
+-- A ranked ballot lists the voter's candidates in preference order. candidate_id keeps the first
+-- preference, so first-choice counts, monitoring and "already voted" checks work unchanged.
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS ranking UUID[];
+
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_ranking_first_choice;
+ALTER TABLE votes ADD CONSTRAINT votes_ranking_first_choice
+  CHECK (ranking IS NULL OR (cardinality(ranking) > 0 AND ranking[1] = candidate_id));
+
+-- Changing how a post is counted mid-vote would change what the ballots already cast mean
+CREATE OR REPLACE FUNCTION prevent_locked_voting_method_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  IF NEW.voting_method IS DISTINCT FROM OLD.voting_method THEN
+    SELECT election_effective_status(e) INTO current_status FROM elections e WHERE e.id = NEW.election_id;
+
+    IF current_status IN ('open', 'closed', 'certified') THEN
+      RAISE EXCEPTION 'The voting method cannot be changed once voting has opened (election is %)', current_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS lock_posts_voting_method_after_open ON posts;
+CREATE TRIGGER lock_posts_voting_method_after_open BEFORE UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION prevent_locked_voting_method_changes();
+
+-- The ranked ballots for an election's ranked posts, without voter ids, for the instant-runoff
+-- count in lib/ranked-choice.ts. Released on the same terms as get_election_tally().
+CREATE OR REPLACE FUNCTION get_ranked_ballots(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  ranking UUID[]
+) AS $$
+  SELECT v.post_id, v.ranking
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id AND p.voting_method = 'ranked'
+  JOIN votes v ON v.post_id = p.id AND v.ranking IS NOT NULL
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_ranked_ballots(UUID) TO authenticated;
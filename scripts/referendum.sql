@@ -0,0 +1,88 @@
+-- Yes/No referendum ballots. A post is voted on as a referendum when an admin chooses it, or
+-- automatically when only one candidate stands; the candidate is elected if the share of Yes
+-- votes exceeds the post's approval threshold.
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_voting_method_check;
+ALTER TABLE posts ADD CONSTRAINT posts_voting_method_check
+  CHECK (voting_method IN ('plurality', 'ranked', 'referendum'));
+
+-- Percentage of Yes votes (out of Yes and No) that must be exceeded
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS approval_threshold NUMERIC(5, 2) NOT NULL DEFAULT 50
+  CHECK (approval_threshold >= 0 AND approval_threshold < 100);
+
+-- A referendum ballot names the candidate in candidate_id and records Yes (true) or No (false)
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS approval BOOLEAN;
+
+-- Keep in step with isReferendum() in lib/elections.ts
+CREATE OR REPLACE FUNCTION post_is_referendum(p posts)
+RETURNS BOOLEAN AS $$
+  SELECT p.voting_method = 'referendum' OR (SELECT COUNT(*) FROM candidates c WHERE c.post_id = p.id) = 1
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION prevent_locked_voting_method_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  IF NEW.voting_method IS DISTINCT FROM OLD.voting_method
+    OR NEW.seats IS DISTINCT FROM OLD.seats
+    OR NEW.max_selections IS DISTINCT FROM OLD.max_selections
+    OR NEW.approval_threshold IS DISTINCT FROM OLD.approval_threshold
+  THEN
+    SELECT election_effective_status(e) INTO current_status FROM elections e WHERE e.id = NEW.election_id;
+
+    IF current_status IN ('open', 'closed', 'certified') THEN
+      RAISE EXCEPTION 'How a position is voted on cannot be changed once voting has opened (election is %)', current_status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- vote_count leaves out No votes, which are counted in rejection_count. approval_threshold is only
+-- set for posts voted on as a referendum.
+DROP FUNCTION IF EXISTS get_election_tally(UUID);
+CREATE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE,
+  seats INTEGER,
+  ballot_count BIGINT,
+  rejection_count BIGINT,
+  approval_threshold NUMERIC
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE),
+    MAX(v.created_at),
+    p.seats,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id),
+    COUNT(v.id) FILTER (WHERE v.approval IS FALSE),
+    CASE WHEN post_is_referendum(p) THEN p.approval_threshold END
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND (v.candidate_id = c.id OR c.id = ANY(v.selections))
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  GROUP BY c.id, p.id
+  ORDER BY p.position, COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_election_tally(UUID) TO authenticated;
@@ -0,0 +1,71 @@
+-- Results embargo: when voters may see an election's tallies
+
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS results_visibility TEXT NOT NULL DEFAULT 'after_close'
+  CHECK (results_visibility IN ('live', 'after_close', 'after_publish'));
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS results_published_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep in step with areResultsVisible() in lib/elections.ts
+CREATE OR REPLACE FUNCTION election_results_released(e elections)
+RETURNS BOOLEAN AS $$
+  SELECT CASE e.results_visibility
+    WHEN 'live' THEN election_effective_status(e) IN ('open', 'closed', 'certified')
+    WHEN 'after_publish' THEN e.results_published_at IS NOT NULL
+    ELSE election_effective_status(e) IN ('closed', 'certified')
+  END
+$$ LANGUAGE sql STABLE;
+
+-- Tallies are only handed out to voters once the election's policy releases them
+CREATE OR REPLACE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id),
+    MAX(v.created_at)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND v.candidate_id = c.id
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    )
+  GROUP BY c.id, p.position
+  ORDER BY p.position, COUNT(v.id) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Publishing can't be undone, and only happens once voting has closed
+CREATE OR REPLACE FUNCTION guard_results_publication()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.results_published_at IS DISTINCT FROM OLD.results_published_at THEN
+    IF OLD.results_published_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Results for this election have already been published'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF election_effective_status(NEW) NOT IN ('closed', 'certified') THEN
+      RAISE EXCEPTION 'Results can only be published once voting has closed'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS guard_elections_results_publication ON elections;
+CREATE TRIGGER guard_elections_results_publication BEFORE UPDATE ON elections
+  FOR EACH ROW EXECUTE FUNCTION guard_results_publication();
@@ -0,0 +1,117 @@
+-- Secret ballot. Who voted on a post is recorded in ballot_participation; what they chose stays in
+-- votes, which no longer names the voter or when the ballot was cast. The two rows are written
+-- together by cast_ballot() and share nothing but the post.
+
+CREATE TABLE IF NOT EXISTS ballot_participation (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(post_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ballot_participation_post_created ON ballot_participation(post_id, created_at);
+
+ALTER TABLE ballot_participation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own participation" ON ballot_participation;
+CREATE POLICY "Users can view own participation" ON ballot_participation
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Turnout, vote rates and the register's Voted column
+DROP POLICY IF EXISTS "Staff can view participation" ON ballot_participation;
+CREATE POLICY "Staff can view participation" ON ballot_participation
+  FOR SELECT USING (has_permission('view_monitoring') OR has_permission('manage_voters'));
+
+-- Existing ballots keep their voter's participation, then lose the link
+INSERT INTO ballot_participation (post_id, user_id, created_at)
+SELECT post_id, user_id, created_at FROM votes WHERE user_id IS NOT NULL
+ON CONFLICT (post_id, user_id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can view own votes" ON votes;
+DROP POLICY IF EXISTS "Monitors can view all votes" ON votes;
+ALTER TABLE votes DROP COLUMN IF EXISTS user_id;
+ALTER TABLE votes DROP COLUMN IF EXISTS created_at;
+
+-- Nobody reads ballots row by row any more; counts come from the tally functions, which run as owner.
+-- Live monitoring follows participation instead, since a stream of ballots next to a stream of
+-- voters would pair them up.
+ALTER PUBLICATION supabase_realtime DROP TABLE votes;
+ALTER PUBLICATION supabase_realtime ADD TABLE ballot_participation;
+
+-- Records that p_user_id voted on p_post_id and stores their ballot, or neither. A second ballot
+-- for the same post fails with unique_violation on the participation row.
+CREATE OR REPLACE FUNCTION cast_ballot(
+  p_post_id UUID,
+  p_user_id UUID,
+  p_candidate_id UUID,
+  p_ranking UUID[],
+  p_selections UUID[],
+  p_approval BOOLEAN
+)
+RETURNS TABLE (ballot_id UUID, voted_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  new_ballot_id UUID;
+  new_voted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO ballot_participation (post_id, user_id)
+  VALUES (p_post_id, p_user_id)
+  RETURNING created_at INTO new_voted_at;
+
+  INSERT INTO votes (post_id, candidate_id, ranking, selections, approval)
+  VALUES (p_post_id, p_candidate_id, p_ranking, p_selections, p_approval)
+  RETURNING id INTO new_ballot_id;
+
+  RETURN QUERY SELECT new_ballot_id, new_voted_at;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cast_ballot(UUID, UUID, UUID, UUID[], UUID[], BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Ballots no longer carry a time, so last_vote_at is when the post last had a voter
+DROP FUNCTION IF EXISTS get_election_tally(UUID);
+CREATE FUNCTION get_election_tally(p_election_id UUID)
+RETURNS TABLE (
+  post_id UUID,
+  candidate_id UUID,
+  name TEXT,
+  department TEXT,
+  image_url TEXT,
+  image_public_id TEXT,
+  vote_count BIGINT,
+  last_vote_at TIMESTAMP WITH TIME ZONE,
+  seats INTEGER,
+  ballot_count BIGINT,
+  rejection_count BIGINT,
+  approval_threshold NUMERIC,
+  abstain_count BIGINT
+) AS $$
+  SELECT
+    c.post_id,
+    c.id,
+    c.name,
+    c.department,
+    c.image_url,
+    c.image_public_id,
+    COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE),
+    (SELECT MAX(bp.created_at) FROM ballot_participation bp WHERE bp.post_id = p.id),
+    p.seats,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id),
+    COUNT(v.id) FILTER (WHERE v.approval IS FALSE),
+    CASE WHEN post_is_referendum(p) THEN p.approval_threshold END,
+    (SELECT COUNT(*) FROM votes b WHERE b.post_id = p.id AND b.candidate_id IS NULL)
+  FROM elections e
+  JOIN posts p ON p.election_id = e.id
+  JOIN candidates c ON c.post_id = p.id
+  LEFT JOIN votes v ON v.post_id = p.id AND (v.candidate_id = c.id OR c.id = ANY(v.selections))
+  WHERE e.id = p_election_id
+    AND (
+      election_results_released(e)
+      OR has_permission('view_reports')
+      OR has_permission('view_monitoring')
+    )
+  GROUP BY c.id, p.id
+  ORDER BY p.position, COUNT(v.id) FILTER (WHERE v.approval IS DISTINCT FROM FALSE) DESC, c.name
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_election_tally(UUID) TO authenticated;
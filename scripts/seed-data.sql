@@ -1,24 +1,24 @@
 -- Insert sample eligible voters
-INSERT INTO eligible_voters (matric_no, name, department) VALUES
-('2021/CS/001', 'John Doe', 'Computer Science'),
-('2021/CS/002', 'Jane Smith', 'Computer Science'),
-('2021/ENG/001', 'Mike Johnson', 'Engineering'),
-('2021/ENG/002', 'Sarah Wilson', 'Engineering'),
-('2021/BUS/001', 'David Brown', 'Business Administration'),
-('2021/BUS/002', 'Lisa Davis', 'Business Administration'),
-('2021/MED/001', 'Robert Miller', 'Medicine'),
-('2021/MED/002', 'Emily Garcia', 'Medicine'),
-('2021/LAW/001', 'James Rodriguez', 'Law'),
-('2021/LAW/002', 'Maria Martinez', 'Law');
+INSERT INTO eligible_voters (matric_no, name, department, email) VALUES
+('2021/CS/001', 'John Doe', 'Computer Science', 'john.doe@students.university.edu'),
+('2021/CS/002', 'Jane Smith', 'Computer Science', 'jane.smith@students.university.edu'),
+('2021/ENG/001', 'Mike Johnson', 'Engineering', 'mike.johnson@students.university.edu'),
+('2021/ENG/002', 'Sarah Wilson', 'Engineering', 'sarah.wilson@students.university.edu'),
+('2021/BUS/001', 'David Brown', 'Business Administration', 'david.brown@students.university.edu'),
+('2021/BUS/002', 'Lisa Davis', 'Business Administration', 'lisa.davis@students.university.edu'),
+('2021/MED/001', 'Robert Miller', 'Medicine', 'robert.miller@students.university.edu'),
+('2021/MED/002', 'Emily Garcia', 'Medicine', 'emily.garcia@students.university.edu'),
+('2021/LAW/001', 'James Rodriguez', 'Law', 'james.rodriguez@students.university.edu'),
+('2021/LAW/002', 'Maria Martinez', 'Law', 'maria.martinez@students.university.edu');
 
 -- Insert admin user (you'll need to register this user first)
 -- This is just a placeholder - the actual admin should be created through the registration process
--- with the email admin@university.edu and then manually updated to admin role
+-- with the email admin@university.edu and then manually updated to the super_admin role
 
 -- Insert sample election
-INSERT INTO elections (title, description, start_time, end_time, is_active) VALUES
+INSERT INTO elections (title, description, start_time, end_time, status) VALUES
 ('Student Union Elections 2024', 'Annual student union elections for academic year 2024-2025', 
- NOW() - INTERVAL '1 day', NOW() + INTERVAL '7 days', true);
+ NOW() - INTERVAL '1 day', NOW() + INTERVAL '7 days', 'open');
 
 -- Get the election ID for reference
 DO $$
@@ -0,0 +1,4 @@
+-- Votes are now cast only through POST /api/votes, which uses the service role key
+-- after checking the session, election window, candidate and eligibility.
+-- Remove the browser insert path so the API is the single way to record a vote.
+DROP POLICY IF EXISTS "Users can insert own votes" ON votes;
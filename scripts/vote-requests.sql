@@ -0,0 +1,57 @@
+-- Idempotent vote submission. Clients send an Idempotency-Key with each submission and reuse it on
+-- every retry. The first attempt to succeed stores its result here, in the same transaction as the
+-- ballots, and repeats get that result back instead of ALREADY_VOTED. Only a hash of the key is
+-- kept and the result is sealed with a key derived from it (see lib/vote-requests-server.ts), so a
+-- row names its voter but not their ballot.
+
+CREATE TABLE IF NOT EXISTS vote_requests (
+  key_hash TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  sealed_result TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Read and written by the service role only
+ALTER TABLE vote_requests ENABLE ROW LEVEL SECURITY;
+
+-- Redefined from whole-ballot.sql to record the request alongside its ballots. The request row
+-- goes in first, so of two attempts racing with one key the second fails on it straight away.
+DROP FUNCTION IF EXISTS cast_ballots(UUID, JSONB);
+CREATE FUNCTION cast_ballots(
+  p_user_id UUID,
+  p_ballots JSONB,
+  p_request_key_hash TEXT DEFAULT NULL,
+  p_sealed_result TEXT DEFAULT NULL
+)
+RETURNS TABLE (post_id UUID, ballot_id UUID, voted_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  ballot RECORD;
+BEGIN
+  IF p_request_key_hash IS NOT NULL THEN
+    INSERT INTO vote_requests (key_hash, user_id, sealed_result)
+    VALUES (p_request_key_hash, p_user_id, p_sealed_result);
+  END IF;
+
+  FOR ballot IN
+    SELECT *
+    FROM JSONB_TO_RECORDSET(p_ballots) AS b(
+      post_id UUID,
+      ballot_id UUID,
+      receipt TEXT,
+      candidate_id UUID,
+      ranking UUID[],
+      selections UUID[],
+      approval BOOLEAN
+    )
+  LOOP
+    RETURN QUERY
+    SELECT ballot.post_id, c.ballot_id, c.voted_at
+    FROM cast_ballot(
+      ballot.post_id, p_user_id, ballot.ballot_id, ballot.receipt,
+      ballot.candidate_id, ballot.ranking, ballot.selections, ballot.approval
+    ) c;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cast_ballots(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
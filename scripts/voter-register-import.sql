@@ -0,0 +1,47 @@
+-- Replace the eligible voter register with an imported list in one transaction and log it.
+-- p_rows is a JSON array of {matric_no, name, department} with matric numbers already normalised.
+-- Only the service role may call this; the import API route checks the caller is an admin.
+CREATE OR REPLACE FUNCTION apply_eligible_voter_import(p_rows JSONB, p_actor UUID)
+RETURNS JSONB AS $$
+DECLARE
+  added_count INTEGER;
+  updated_count INTEGER;
+  removed_count INTEGER;
+  summary JSONB;
+BEGIN
+  CREATE TEMP TABLE incoming_voters ON COMMIT DROP AS
+    SELECT matric_no, name, NULLIF(department, '') AS department
+    FROM jsonb_to_recordset(p_rows) AS r(matric_no TEXT, name TEXT, department TEXT);
+
+  DELETE FROM eligible_voters ev
+  WHERE NOT EXISTS (SELECT 1 FROM incoming_voters i WHERE i.matric_no = UPPER(TRIM(ev.matric_no)));
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  UPDATE eligible_voters ev
+  SET matric_no = i.matric_no, name = i.name, department = i.department
+  FROM incoming_voters i
+  WHERE i.matric_no = UPPER(TRIM(ev.matric_no))
+    AND (ev.name IS DISTINCT FROM i.name OR ev.department IS DISTINCT FROM i.department);
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  INSERT INTO eligible_voters (matric_no, name, department)
+  SELECT i.matric_no, i.name, i.department
+  FROM incoming_voters i
+  WHERE NOT EXISTS (SELECT 1 FROM eligible_voters ev WHERE UPPER(TRIM(ev.matric_no)) = i.matric_no);
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  summary = jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count,
+    'total', jsonb_array_length(p_rows)
+  );
+
+  INSERT INTO audit_logs (user_id, action, table_name, new_values)
+  VALUES (p_actor, 'IMPORT', 'eligible_voters', summary);
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION apply_eligible_voter_import(JSONB, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,121 @@
+-- Registration must prove ownership of the matric number: the voter verifies a one-time code
+-- sent to the institutional email the register holds for it. Unverified profiles can't vote.
+
+ALTER TABLE eligible_voters ADD COLUMN IF NOT EXISTS email TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligible_voters_email ON eligible_voters(LOWER(email)) WHERE email IS NOT NULL;
+
+-- Set by POST /api/registration/verify once the emailed code checks out
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Lets the signed-out registration form check a matric number and email before creating an
+-- account, without exposing the register itself. Keep the results in step with signUp() in lib/auth.ts
+CREATE OR REPLACE FUNCTION check_registration_eligibility(p_matric_no TEXT, p_email TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  voter eligible_voters;
+BEGIN
+  SELECT * INTO voter FROM eligible_voters WHERE UPPER(TRIM(matric_no)) = UPPER(TRIM(p_matric_no));
+
+  IF NOT FOUND THEN
+    RETURN 'not_on_register';
+  ELSIF voter.email IS NULL THEN
+    RETURN 'no_email_on_record';
+  ELSIF LOWER(voter.email) <> LOWER(TRIM(p_email)) THEN
+    RETURN 'email_mismatch';
+  ELSIF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE UPPER(TRIM(matric_no)) = UPPER(TRIM(p_matric_no)) AND verified_at IS NOT NULL
+  ) THEN
+    RETURN 'already_registered';
+  END IF;
+
+  RETURN 'eligible';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_registration_eligibility(TEXT, TEXT) TO anon, authenticated;
+
+-- Only the server (service role) marks a profile verified or changes the identity it was verified for
+CREATE OR REPLACE FUNCTION guard_profile_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.matric_no IS DISTINCT FROM OLD.matric_no
+    OR NEW.email IS DISTINCT FROM OLD.email
+  ) THEN
+    RAISE EXCEPTION 'Verification details can only be changed by the registration service'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS guard_profiles_verification ON profiles;
+CREATE TRIGGER guard_profiles_verification BEFORE UPDATE OF verified_at, matric_no, email ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_verification();
+
+-- The register import now carries the institutional email. A CSV in the older layout, without an
+-- email column, is applied with p_keep_emails so existing voters keep the email they have.
+DROP FUNCTION IF EXISTS apply_eligible_voter_import(JSONB, UUID);
+CREATE FUNCTION apply_eligible_voter_import(p_rows JSONB, p_actor UUID, p_keep_emails BOOLEAN DEFAULT FALSE)
+RETURNS JSONB AS $$
+DECLARE
+  added_count INTEGER;
+  updated_count INTEGER;
+  removed_count INTEGER;
+  summary JSONB;
+BEGIN
+  PERFORM set_config('app.actor_id', p_actor::TEXT, true);
+
+  CREATE TEMP TABLE incoming_voters ON COMMIT DROP AS
+    SELECT matric_no, name, NULLIF(department, '') AS department, NULLIF(LOWER(email), '') AS email
+    FROM jsonb_to_recordset(p_rows) AS r(matric_no TEXT, name TEXT, department TEXT, email TEXT);
+
+  DELETE FROM eligible_voters ev
+  WHERE NOT EXISTS (SELECT 1 FROM incoming_voters i WHERE i.matric_no = UPPER(TRIM(ev.matric_no)));
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  UPDATE eligible_voters ev
+  SET
+    matric_no = i.matric_no,
+    name = i.name,
+    department = i.department,
+    email = CASE WHEN p_keep_emails THEN ev.email ELSE i.email END
+  FROM incoming_voters i
+  WHERE i.matric_no = UPPER(TRIM(ev.matric_no))
+    AND (
+      ev.name IS DISTINCT FROM i.name
+      OR ev.department IS DISTINCT FROM i.department
+      OR (NOT p_keep_emails AND ev.email IS DISTINCT FROM i.email)
+    );
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  INSERT INTO eligible_voters (matric_no, name, department, email)
+  SELECT i.matric_no, i.name, i.department, i.email
+  FROM incoming_voters i
+  WHERE NOT EXISTS (SELECT 1 FROM eligible_voters ev WHERE UPPER(TRIM(ev.matric_no)) = i.matric_no);
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  summary = jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count,
+    'total', jsonb_array_length(p_rows)
+  );
+
+  INSERT INTO audit_logs (user_id, action, table_name, new_values, ip_address, user_agent)
+  VALUES (
+    p_actor,
+    'IMPORT',
+    'eligible_voters',
+    summary,
+    audit_request_ip(),
+    audit_request_user_agent()
+  );
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION apply_eligible_voter_import(JSONB, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,31 @@
+-- Whole ballots: every position a voter fills in during one session is cast by cast_ballots(),
+-- which records them all or, if any one fails (e.g. a post already voted in another tab), none.
+
+CREATE OR REPLACE FUNCTION cast_ballots(p_user_id UUID, p_ballots JSONB)
+RETURNS TABLE (post_id UUID, ballot_id UUID, voted_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  ballot RECORD;
+BEGIN
+  FOR ballot IN
+    SELECT *
+    FROM JSONB_TO_RECORDSET(p_ballots) AS b(
+      post_id UUID,
+      ballot_id UUID,
+      receipt TEXT,
+      candidate_id UUID,
+      ranking UUID[],
+      selections UUID[],
+      approval BOOLEAN
+    )
+  LOOP
+    RETURN QUERY
+    SELECT ballot.post_id, c.ballot_id, c.voted_at
+    FROM cast_ballot(
+      ballot.post_id, p_user_id, ballot.ballot_id, ballot.receipt,
+      ballot.candidate_id, ballot.ranking, ballot.selections, ballot.approval
+    ) c;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cast_ballots(UUID, JSONB) FROM PUBLIC, anon, authenticated;